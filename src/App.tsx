@@ -3,10 +3,58 @@ import { useDropzone } from 'react-dropzone'
 import type { DropzoneOptions } from 'react-dropzone'
 
 import { EventTable, type EventTableHandle, type EventTableStrings } from './components/EventTable'
+import { MacroLintPanel, type MacroLintPanelStrings } from './components/MacroLintPanel'
+import { MergeDialog, type MergeDialogStrings } from './components/MergeDialog'
 import { PreviewPane, type PreviewPaneHandle, type PreviewPaneStrings } from './components/PreviewPane'
-import { useRecEditor, type EditorEvent } from './hooks/useRecEditor'
-import { MESSAGE_LABELS } from './lib/messageCatalog'
+import { TimelineEditor, type TimelineEditorStrings } from './components/TimelineEditor'
+import { MarkerSidebar, type MarkerSidebarStrings } from './components/MarkerSidebar'
+import { QueryBar, type QueryBarStrings } from './components/QueryBar'
+import {
+  CoordinateTransformPanel,
+  type CoordinateTransformPanelStrings,
+} from './components/CoordinateTransformPanel'
+import { HumanizePanel, type HumanizePanelStrings } from './components/HumanizePanel'
+import { FindReplacePanel, type FindReplacePanelStrings } from './components/FindReplacePanel'
+import { InputBalanceWarnings, type InputBalanceWarningsStrings } from './components/InputBalanceWarnings'
+import { RepeatSelectionPanel, type RepeatSelectionPanelStrings } from './components/RepeatSelectionPanel'
+import { ScriptExportPanel, type ScriptExportPanelStrings } from './components/ScriptExportPanel'
+import { buildPreviewData } from './hooks/usePreview'
+import {
+  findContiguousSelection,
+  useRecEditor,
+  type EditorEvent,
+  type IncomingMacro,
+  type MergeOptions,
+  type OperationScope,
+  type PlacedMarker,
+} from './hooks/useRecEditor'
+import { encodeMousePoint, type MousePoint } from './lib/eventParams'
+import { compileEventQuery } from './lib/eventQuery'
+import { findInputBalanceIssues } from './lib/inputBalance'
+import { KEY_MESSAGES, MESSAGE_LABELS, MOUSE_BUTTON_MESSAGES, type MouseButton } from './lib/messageCatalog'
 import { describeVirtualKey } from './lib/keyCodes'
+import {
+  CHORD_MODIFIERS,
+  buildChordEvents,
+  chordModifierForKey,
+  formatChord,
+  type KeyChord,
+} from './lib/keyChord'
+import {
+  MOUSE_PATH_CURVES,
+  buildMousePath,
+  buildWheelEvents,
+  findCursorPosition,
+  type MousePathCurve,
+} from './lib/mousePath'
+import { KEYBOARD_LAYOUTS, typeText, type KeyboardLayoutId } from './lib/typeText'
+import {
+  mostCommonHwnd,
+  replaceEvents,
+  scaleDelays,
+  simplifyMouseMoves,
+  type ReplaceRule,
+} from './lib/transforms'
 
 import './App.css'
 
@@ -28,12 +76,14 @@ interface LocaleStrings {
     idle: string
     active: string
     button: string
+    importText: string
     loading: string
   }
   status: {
     parsing: string
     unknownMessages: (codes: string) => string
   }
+  inputBalance: InputBalanceWarningsStrings
   summary: {
     file: string
     events: string
@@ -47,8 +97,13 @@ interface LocaleStrings {
     redo: string
     reset: string
     download: string
+    exportText: string
+    saveProject: string
     merge: string
+    findReplace: string
   }
+  query: QueryBarStrings
+  findReplace: FindReplacePanelStrings
   filters: {
     options: { id: ActionFilter; label: string }[]
     keyboardLabel: string
@@ -68,6 +123,10 @@ interface LocaleStrings {
     timestampButton: string
     timestampInvalid: string
     timestampLast: string
+    commentLabel: string
+    commentPlaceholder: string
+    commentButton: string
+    commentMissing: string
   }
   selection: {
     summary: (selectedCount: number, visibleSelectedCount: number, filterActive: boolean) => string
@@ -75,7 +134,11 @@ interface LocaleStrings {
       selectAll: string
       clearSelection: string
       deleteSelected: string
+      copy: string
+      cut: string
+      paste: string
     }
+    pasteDelayLabel: string
     actions: {
       setDelayLabel: string
       setDelayPlaceholder: string
@@ -86,16 +149,65 @@ interface LocaleStrings {
       apply: string
       clamp: string
     }
+    scale: {
+      title: string
+      factorLabel: string
+      factorPlaceholder: string
+      minDelayLabel: string
+      onlyAboveLabel: string
+      optionalPlaceholder: string
+      scopeLabel: string
+      scopeOptions: Record<OperationScope, string>
+      button: string
+      estimate: (duration: string) => string
+    }
+    coordinates: CoordinateTransformPanelStrings
+    simplify: {
+      title: string
+      toleranceLabel: string
+      previewLabel: string
+      counts: (before: number, after: number) => string
+      button: string
+    }
+    humanize: HumanizePanelStrings
+    repeat: RepeatSelectionPanelStrings
     insert: {
       title: string
       typeLabel: string
       typeOptions: Record<string, string>
       keyLabel: string
+      chordLabel: string
       delayLabel: string
+      textLabel: string
+      textPlaceholder: string
+      layoutLabel: string
+      layouts: Record<KeyboardLayoutId, string>
+      keyDelayLabel: string
+      holdDelayLabel: string
+      unsupported: (characters: string) => string
+      targetXLabel: string
+      targetYLabel: string
+      fromPoint: (x: number, y: number) => string
+      curveLabel: string
+      curves: Record<MousePathCurve, string>
+      durationLabel: string
+      sampleRateLabel: string
+      clickLabel: string
+      clicks: Record<MouseButton | 'none', string>
+      notchesLabel: string
+      notchesHint: string
+      notchDelayLabel: string
+      pickPoint: string
+      pickingPoint: string
       button: string
     }
   }
+  scriptExport: ScriptExportPanelStrings
+  lint: MacroLintPanelStrings
+  mergeDialog: MergeDialogStrings
   preview: PreviewPaneStrings
+  timeline: TimelineEditorStrings
+  markers: MarkerSidebarStrings
   eventTable: EventTableStrings
 }
 
@@ -163,15 +275,30 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
         subtitle: 'Загрузите `.rec` файл TinyTask, скорректируйте задержки и приведите последовательность к нужному виду.',
       },
       dropzone: {
-        idle: 'Перетащите .rec файл сюда или используйте кнопку ниже',
+        idle: 'Перетащите .rec, текстовый .txt макрос или проект .rtproj сюда или используйте кнопки ниже',
         active: 'Отпустите файл, чтобы загрузить',
         button: 'Выбрать файл',
+        importText: 'Импорт текста',
         loading: 'Загрузка…',
       },
       status: {
         parsing: 'Разбор макроса…',
         unknownMessages: (codes) => `Обнаружены неизвестные коды сообщений: ${codes}`,
       },
+      inputBalance: {
+        title: (count) => `Несбалансированные нажатия: ${formatNumber(count)}`,
+        buttonNames: {
+          left: 'ЛКМ',
+          right: 'ПКМ',
+          middle: 'СКМ',
+        },
+        unreleased: (input, row) => `${input} нажата в действии #${formatNumber(row)} и не отпускается`,
+        orphanRelease: (input, row) => `${input} отпускается в действии #${formatNumber(row)} без нажатия`,
+        releaseAtEnd: 'Отпустить в конце',
+        releaseAtCut: (row) => `Отпустить в #${formatNumber(row)}`,
+        remove: 'Удалить',
+        releaseAllAtEnd: 'Отпустить все в конце',
+      },
       summary: {
         file: 'Файл',
         events: 'Действия',
@@ -185,7 +312,61 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
         redo: 'Повторить',
         reset: 'Сбросить изменения',
         download: 'Скачать макрос',
+        exportText: 'Экспорт в текст',
+        saveProject: 'Сохранить проект',
         merge: 'Объединить',
+        findReplace: 'Найти и заменить',
+      },
+      query: {
+        label: 'Запрос',
+        placeholder: 'keydown key=Enter delay>500 time 00:01:00..00:02:00',
+        help: 'Типы (keydown, click, move, wheel, keyboard, mouse…) и условия: key=A,Enter · delay>500 · time 00:30..01:00 · x 100..300 · y <50 · hwnd=0x1A2B',
+        matches: (count, total) => `Совпадений: ${formatNumber(count)} из ${formatNumber(total)}`,
+        selectMatches: 'Выделить совпадения',
+        save: 'Сохранить',
+        clear: 'Очистить',
+        savedLabel: 'Сохранённые запросы',
+        removeSaved: (query) => `Удалить запрос «${query}»`,
+      },
+      findReplace: {
+        title: 'Найти и заменить',
+        kindLabel: 'Что заменить',
+        kinds: {
+          key: 'Клавишу',
+          point: 'Координаты',
+          delay: 'Задержку',
+        },
+        findKeyLabel: 'Найти клавишу',
+        replaceKeyLabel: 'Заменить на',
+        keyTargetLabel: 'События',
+        keyTargets: {
+          all: 'Нажатия и отпускания',
+          down: 'Только нажатия',
+          up: 'Только отпускания',
+        },
+        findPointLabel: 'Найти точку',
+        toleranceLabel: 'Допуск ± (пикс.)',
+        replacePointLabel: 'Перенести в',
+        pointTargetLabel: 'События',
+        pointTargets: {
+          buttons: 'Только клики',
+          mouse: 'Все события мыши',
+        },
+        xLabel: 'X',
+        yLabel: 'Y',
+        findDelayLabel: 'Найти задержку (мс)',
+        replaceDelayLabel: 'Заменить на (мс)',
+        scopeLabel: 'Искать в',
+        scopeOptions: {
+          selection: 'Выбранных',
+          all: 'Всём макросе',
+        },
+        affected: (count) => `Будет изменено: ${formatNumber(count)}`,
+        invalid: 'Заполните все поля целыми числами',
+        onlyAffected: 'Показывать только затронутые',
+        replaced: (count) => `Заменено: ${formatNumber(count)}`,
+        button: 'Заменить все',
+        close: 'Закрыть',
       },
       filters: {
         options: [
@@ -210,6 +391,10 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
         timestampButton: 'Найти',
         timestampInvalid: 'Введите время в формате мм:сс или миллисекунды',
         timestampLast: 'Показано последнее событие',
+        commentLabel: 'Поиск по заметкам',
+        commentPlaceholder: 'Текст (пусто — любая заметка)',
+        commentButton: 'Далее',
+        commentMissing: 'Заметок с таким текстом нет',
       },
       selection: {
         summary: (selectedCount, visibleSelectedCount, filterActive) => {
@@ -223,7 +408,11 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
           selectAll: 'Выделить все',
           clearSelection: 'Снять выделение',
           deleteSelected: 'Удалить выбранные',
+          copy: 'Копировать',
+          cut: 'Вырезать',
+          paste: 'Вставить',
         },
+        pasteDelayLabel: 'Задержка вставки (мс)',
         actions: {
           setDelayLabel: 'Установить задержку (мс)',
           setDelayPlaceholder: 'например, 50',
@@ -234,6 +423,82 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
           apply: 'Применить',
           clamp: 'Обнулить',
         },
+        scale: {
+          title: 'Масштаб времени',
+          factorLabel: 'Множитель',
+          factorPlaceholder: '0.5 = в 2 раза быстрее',
+          minDelayLabel: 'Мин. задержка (мс)',
+          onlyAboveLabel: 'Только паузы > (мс)',
+          optionalPlaceholder: 'необязательно',
+          scopeLabel: 'Применить к',
+          scopeOptions: {
+            selection: 'Выбранным',
+            all: 'Всему макросу',
+          },
+          button: 'Масштабировать',
+          estimate: (value) => `Новая длительность: ${value}`,
+        },
+        coordinates: {
+          title: 'Координаты',
+          modeLabel: 'Режим',
+          modes: {
+            resolution: 'Разрешение',
+            offset: 'Смещение',
+            rect: 'Прямоугольник',
+          },
+          sourceBounds: (minX, minY, maxX, maxY) => `Границы: ${minX},${minY} – ${maxX},${maxY}`,
+          noMouseEvents: 'Нет событий мыши',
+          sourceResolutionLabel: 'Исходное',
+          targetResolutionLabel: 'Новое',
+          resolutionPlaceholder: '1920x1080',
+          offsetXLabel: 'Сдвиг X',
+          offsetYLabel: 'Сдвиг Y',
+          sourceRectLabel: 'Из (x, y, ш, в)',
+          targetRectLabel: 'В (x, y, ш, в)',
+          rectPlaceholder: '0, 0, 1920, 1080',
+          useBounds: 'Из превью',
+          scopeLabel: 'Применить к',
+          scopeOptions: {
+            selection: 'Выбранным',
+            all: 'Всему макросу',
+          },
+          button: 'Преобразовать',
+        },
+        simplify: {
+          title: 'Упростить путь мыши',
+          toleranceLabel: 'Допуск (пикс.)',
+          previewLabel: 'Показать в превью',
+          counts: (before, after) => `Событий: ${formatNumber(before)} → ${formatNumber(after)}`,
+          button: 'Упростить',
+        },
+        humanize: {
+          title: 'Очеловечить',
+          delayJitterLabel: 'Разброс задержек ±',
+          delayUnits: {
+            percent: '%',
+            ms: 'мс',
+          },
+          coordinateJitterLabel: 'Разброс координат ± (пикс.)',
+          seedLabel: 'Зерно',
+          newSeed: 'Новое',
+          scopeLabel: 'Применить к',
+          scopeOptions: {
+            selection: 'Выбранным',
+            all: 'Всему макросу',
+          },
+          button: 'Очеловечить',
+          appliedSeed: (seed) => `Применено зерно ${seed}`,
+        },
+        repeat: {
+          title: 'Повторить выделенное',
+          countLabel: 'Всего раз',
+          gapLabel: 'Пауза между повторами (мс)',
+          offsetXLabel: 'Сдвиг X за повтор',
+          offsetYLabel: 'Сдвиг Y за повтор',
+          notContiguous: 'Выделите непрерывный диапазон',
+          estimate: (added) => `Будет добавлено: ${formatNumber(added)}`,
+          button: 'Повторить',
+        },
         insert: {
           title: 'Добавить действие',
           typeLabel: 'Тип',
@@ -241,18 +506,120 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
             leftClick: 'ЛКМ',
             rightClick: 'ПКМ',
             keyPress: 'Клавиша',
+            typeText: 'Ввод текста',
+            chord: 'Сочетание клавиш',
+            mousePath: 'Путь мыши',
+            wheel: 'Прокрутка колеса',
           },
           keyLabel: 'Клавиша',
+          chordLabel: 'Сочетание (нажмите)',
           delayLabel: 'Задержка',
+          textLabel: 'Текст',
+          textPlaceholder: 'Что напечатать',
+          layoutLabel: 'Раскладка',
+          layouts: {
+            us: 'Английская (США)',
+            ru: 'Русская',
+          },
+          keyDelayLabel: 'Между клавишами (мс)',
+          holdDelayLabel: 'Удержание (мс)',
+          unsupported: (characters) => `Нельзя набрать в этой раскладке, будут пропущены: ${characters}`,
+          targetXLabel: 'Цель X',
+          targetYLabel: 'Цель Y',
+          fromPoint: (x, y) => `Из (${formatNumber(x)}, ${formatNumber(y)})`,
+          curveLabel: 'Траектория',
+          curves: {
+            linear: 'Прямая',
+            eased: 'Плавная',
+            bezier: 'Кривая Безье',
+          },
+          durationLabel: 'Длительность (мс)',
+          sampleRateLabel: 'Частота (Гц)',
+          clickLabel: 'Клик в конце',
+          clicks: {
+            none: 'Нет',
+            left: 'ЛКМ',
+            right: 'ПКМ',
+            middle: 'СКМ',
+          },
+          notchesLabel: 'Щелчки колеса',
+          notchesHint: 'Больше нуля — вверх, меньше — вниз',
+          notchDelayLabel: 'Между щелчками (мс)',
+          pickPoint: 'Указать на превью',
+          pickingPoint: 'Щёлкните по превью…',
           button: 'Добавить',
         },
       },
+      scriptExport: {
+        title: 'Экспорт в скрипт',
+        formatLabel: 'Формат',
+        mergePairsLabel: 'Объединять нажатие и отпускание',
+        minMoveLabel: 'Мин. сдвиг мыши (пикс.)',
+        minMovePlaceholder: 'например, 5',
+        button: 'Экспортировать',
+      },
+      lint: {
+        title: 'Проверка макроса',
+        rules: {
+          zeroDelayClick: {
+            label: 'Слишком быстрые клики',
+            thresholdLabel: 'Мин. задержка клика (мс)',
+            finding: (value) => `Клик через ${formatNumber(value)} мс после предыдущего действия`,
+          },
+          longIdleGap: {
+            label: 'Долгие паузы',
+            thresholdLabel: 'Пауза от (мс)',
+            finding: (value) => `Пауза ${formatNumber(value)} мс`,
+          },
+          originClick: {
+            label: 'Клики в (0,0)',
+            thresholdLabel: 'Радиус (пикс.)',
+            finding: (value) => `Клик в ${formatNumber(Math.round(value))} пикс. от (0,0)`,
+          },
+          mixedHwnd: {
+            label: 'Разные окна',
+            finding: (value) => `Другое окно: 0x${value.toString(16).toUpperCase()}`,
+          },
+          unknownMessage: {
+            label: 'Неизвестные сообщения',
+            finding: (value) => `Неизвестный код 0x${value.toString(16).toUpperCase()}`,
+          },
+        },
+        row: (row) => `#${formatNumber(row)}`,
+        summary: (count) => `замечаний: ${formatNumber(count)}`,
+        noFindings: 'Замечаний нет',
+        truncated: (shown, total) => `Показано ${formatNumber(shown)} из ${formatNumber(total)}`,
+      },
+      mergeDialog: {
+        title: (fileName) => `Объединение с ${fileName}`,
+        summary: (events, duration, mouse, keys, windows) =>
+          `${formatNumber(events)} ${pluralizeRuEvents(events)} · ${duration} · мышь: ${formatNumber(mouse)}, клавиатура: ${formatNumber(keys)}, окон: ${formatNumber(windows)}`,
+        noMousePath: 'В выбранном диапазоне нет действий мыши',
+        fromLabel: 'Первое действие №',
+        toLabel: 'Последнее действие №',
+        positionLabel: 'Куда вставить',
+        positions: {
+          afterSelection: 'После выделения',
+          beforeSelection: 'Перед выделением',
+          end: 'В конец',
+          timestamp: 'По времени',
+        },
+        noSelection: 'Нет выделения — действия можно вставить в конец или по времени.',
+        timestampLabel: 'Время',
+        timestampPlaceholder: '00:30.500 или 30500',
+        timestampInvalid: 'Введите время в формате мм:сс или миллисекунды',
+        gapLabel: 'Пауза перед вставкой (мс)',
+        remapHwnd: (hwnd) => `Заменить окно (hwnd) на ${hwnd}`,
+        confirm: 'Объединить',
+        cancel: 'Отмена',
+      },
       preview: {
         title: 'Предпросмотр',
         play: 'Пуск',
         pause: 'Пауза',
         keyboardTimeline: 'Лента событий клавиатуры',
         mouseTimeline: 'Лента нажатий мыши',
+        markersTimeline: 'Метки и разделы',
         formatKeyStatusLabel: (message, baseLabel) => {
           if (message === 0x0100 || message === 0x0104) {
             return `${baseLabel} (нажатие)`
@@ -264,6 +631,48 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
         },
         formatKeyTooltip: (_message, keyName, code, statusLabel) => `${statusLabel} · ${keyName} (код: ${code})`,
         formatMouseTooltip: (message, x, y) => `${describeMouseAction(message, 'ru')} · (${formatNumber(x)}, ${formatNumber(y)})`,
+        toolsLabel: 'Инструмент',
+        tools: {
+          move: 'Перемещение',
+          rectangle: 'Рамка',
+          lasso: 'Лассо',
+        },
+        selectHint: 'Обведите точки; с Shift — добавить к выделению',
+        pickScreenHint: (width, height) => `В макросе нет движений мыши: холст соответствует экрану ${width}×${height}`,
+      },
+      timeline: {
+        title: 'Таймлайн',
+        lanes: {
+          keyboard: 'Клавиатура',
+          buttons: 'Кнопки мыши',
+          moves: 'Движения',
+          wheel: 'Колесо',
+        },
+        zoomIn: 'Приблизить',
+        zoomOut: 'Отдалить',
+        fit: 'По ширине',
+        ripple: 'Сдвигать последующие',
+        hint: 'Перетащите метку, чтобы изменить задержку; обведите пустое место для выделения; Ctrl+колесо — масштаб',
+        markerTooltip: (row, label, time, delay) =>
+          `#${formatNumber(row)} · ${label} · ${formatNumber(time)} мс (задержка ${formatNumber(delay)} мс)`,
+        grouped: (count) => `${formatNumber(count)} ${pluralizeRuEvents(count)} — приблизьте, чтобы разделить`,
+      },
+      markers: {
+        title: 'Метки',
+        empty: 'Меток пока нет. Выделите действие или диапазон и добавьте метку.',
+        nameLabel: 'Название',
+        namePlaceholder: 'например, «вход выполнен»',
+        colorLabel: 'Цвет',
+        addMarker: 'Добавить метку',
+        addSection: 'Добавить раздел',
+        notContiguous: 'Выделите одно действие или непрерывный диапазон',
+        defaultName: (count) => `Метка ${formatNumber(count)}`,
+        position: (row, endRow, timestamp) =>
+          row === endRow
+            ? `#${formatNumber(row)} · ${timestamp}`
+            : `#${formatNumber(row)}–${formatNumber(endRow)} · ${timestamp}`,
+        renameAria: (name) => `Переименовать метку «${name}»`,
+        remove: 'Удалить',
       },
       eventTable: {
         columns: {
@@ -271,9 +680,16 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
           paramL: 'Параметр L',
           paramH: 'Параметр H',
           delay: 'Задержка (мс)',
+          hwnd: 'Окно (hwnd)',
           timestamp: 'Метка времени',
+          comment: 'Заметка',
           actions: 'Действия',
         },
+        commentPlaceholder: 'Добавить заметку',
+        coordinateX: 'X',
+        coordinateY: 'Y',
+        wheelDelta: 'Δ колеса',
+        editFieldAria: (field, index) => `${field}: действие ${formatNumber(index)}`,
         selectAllLabel: 'Выделить все события',
         clearSelectionLabel: 'Снять выделение',
         selectEventAria: (index) => `Выбрать действие ${formatNumber(index)}`,
@@ -283,8 +699,10 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
         keyReleaseDetail: (keyName) => `Отпускание: ${keyName}`,
         moveDetail: (x, y) => `Перемещение к (${formatNumber(x)}, ${formatNumber(y)})`,
         mouseActionDetail: (message, x, y) => `${describeMouseAction(message, 'ru')} · (${formatNumber(x)}, ${formatNumber(y)})`,
-        wheelDetail: (value) => `Событие колеса (значение: ${formatNumber(value)})`,
+        wheelDetail: (delta, notches) =>
+          `Колесо ${delta >= 0 ? 'вверх' : 'вниз'} (Δ ${formatNumber(delta)}, щелчков: ${formatNumber(Math.abs(notches))})`,
         fallbackDetail: (paramL, paramH) => `Параметры L/H: ${formatNumber(paramL)}/${formatNumber(paramH)}`,
+        previewChange: (value) => `→ ${value}`,
       },
     }
   }
@@ -300,15 +718,30 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
       subtitle: 'Load a TinyTask `.rec` file, tweak delays, and curate the exact sequence you need.',
     },
     dropzone: {
-      idle: 'Drag a .rec file here, or use the button below',
-      active: 'Drop the .rec file to load it',
+      idle: 'Drag a .rec file, a .txt text macro or a .rtproj project here, or use the buttons below',
+      active: 'Drop the file to load it',
       button: 'Browse files',
+      importText: 'Import text',
       loading: 'Loading…',
     },
     status: {
       parsing: 'Parsing macro…',
       unknownMessages: (codes) => `Unknown message codes detected: ${codes}`,
     },
+    inputBalance: {
+      title: (count) => `Unbalanced presses: ${formatNumber(count)}`,
+      buttonNames: {
+        left: 'LMB',
+        right: 'RMB',
+        middle: 'MMB',
+      },
+      unreleased: (input, row) => `${input} is pressed at event #${formatNumber(row)} and never released`,
+      orphanRelease: (input, row) => `${input} is released at event #${formatNumber(row)} without a press`,
+      releaseAtEnd: 'Release at end',
+      releaseAtCut: (row) => `Release at #${formatNumber(row)}`,
+      remove: 'Remove',
+      releaseAllAtEnd: 'Release all at end',
+    },
     summary: {
       file: 'File',
       events: 'Events',
@@ -322,7 +755,61 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
       redo: 'Redo',
       reset: 'Reset changes',
       download: 'Download edited macro',
+      exportText: 'Export as text',
+      saveProject: 'Save project',
       merge: 'Merge',
+      findReplace: 'Find & replace',
+    },
+    query: {
+      label: 'Query',
+      placeholder: 'keydown key=Enter delay>500 time 00:01:00..00:02:00',
+      help: 'Types (keydown, click, move, wheel, keyboard, mouse…) and conditions: key=A,Enter · delay>500 · time 00:30..01:00 · x 100..300 · y <50 · hwnd=0x1A2B',
+      matches: (count, total) => `${formatNumber(count)} of ${formatNumber(total)} events match`,
+      selectMatches: 'Select all matches',
+      save: 'Save',
+      clear: 'Clear',
+      savedLabel: 'Saved queries',
+      removeSaved: (query) => `Remove saved query “${query}”`,
+    },
+    findReplace: {
+      title: 'Find & replace',
+      kindLabel: 'Replace',
+      kinds: {
+        key: 'Key',
+        point: 'Coordinates',
+        delay: 'Delay',
+      },
+      findKeyLabel: 'Find key',
+      replaceKeyLabel: 'Replace with',
+      keyTargetLabel: 'Events',
+      keyTargets: {
+        all: 'Presses and releases',
+        down: 'Presses only',
+        up: 'Releases only',
+      },
+      findPointLabel: 'Find point',
+      toleranceLabel: 'Tolerance ± (px)',
+      replacePointLabel: 'Move to',
+      pointTargetLabel: 'Events',
+      pointTargets: {
+        buttons: 'Clicks only',
+        mouse: 'All mouse events',
+      },
+      xLabel: 'X',
+      yLabel: 'Y',
+      findDelayLabel: 'Find delay (ms)',
+      replaceDelayLabel: 'Replace with (ms)',
+      scopeLabel: 'Search in',
+      scopeOptions: {
+        selection: 'Selected events',
+        all: 'Entire macro',
+      },
+      affected: (count) => `${formatNumber(count)} events will change`,
+      invalid: 'Fill in every field with a whole number',
+      onlyAffected: 'Show affected rows only',
+      replaced: (count) => `Replaced ${formatNumber(count)} events`,
+      button: 'Replace all',
+      close: 'Close',
     },
     filters: {
       options: [
@@ -347,6 +834,10 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
       timestampButton: 'Find',
       timestampInvalid: 'Enter time as mm:ss or milliseconds',
       timestampLast: 'Showing the last event',
+      commentLabel: 'Search notes',
+      commentPlaceholder: 'Text (empty finds any note)',
+      commentButton: 'Next',
+      commentMissing: 'No notes contain that text',
     },
     selection: {
       summary: (selectedCount, visibleSelectedCount, filterActive) => {
@@ -361,7 +852,11 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
         selectAll: 'Select all',
         clearSelection: 'Clear selection',
         deleteSelected: 'Delete selected',
+        copy: 'Copy',
+        cut: 'Cut',
+        paste: 'Paste',
       },
+      pasteDelayLabel: 'Paste delay (ms)',
       actions: {
         setDelayLabel: 'Set delay (ms)',
         setDelayPlaceholder: 'e.g. 50',
@@ -372,6 +867,82 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
         apply: 'Apply',
         clamp: 'Clamp',
       },
+      scale: {
+        title: 'Scale timing',
+        factorLabel: 'Factor',
+        factorPlaceholder: '0.5 = 2× faster',
+        minDelayLabel: 'Min delay (ms)',
+        onlyAboveLabel: 'Only gaps > (ms)',
+        optionalPlaceholder: 'optional',
+        scopeLabel: 'Apply to',
+        scopeOptions: {
+          selection: 'Selection',
+          all: 'Whole macro',
+        },
+        button: 'Scale',
+        estimate: (value) => `New duration: ${value}`,
+      },
+      coordinates: {
+        title: 'Coordinates',
+        modeLabel: 'Mode',
+        modes: {
+          resolution: 'Resolution',
+          offset: 'Offset',
+          rect: 'Rectangle',
+        },
+        sourceBounds: (minX, minY, maxX, maxY) => `Bounds: ${minX},${minY} – ${maxX},${maxY}`,
+        noMouseEvents: 'No mouse events',
+        sourceResolutionLabel: 'From',
+        targetResolutionLabel: 'To',
+        resolutionPlaceholder: '1920x1080',
+        offsetXLabel: 'Offset X',
+        offsetYLabel: 'Offset Y',
+        sourceRectLabel: 'From (x, y, w, h)',
+        targetRectLabel: 'To (x, y, w, h)',
+        rectPlaceholder: '0, 0, 1920, 1080',
+        useBounds: 'From preview',
+        scopeLabel: 'Apply to',
+        scopeOptions: {
+          selection: 'Selection',
+          all: 'Whole macro',
+        },
+        button: 'Transform',
+      },
+      simplify: {
+        title: 'Simplify mouse path',
+        toleranceLabel: 'Tolerance (px)',
+        previewLabel: 'Show in preview',
+        counts: (before, after) => `Events: ${formatNumber(before)} → ${formatNumber(after)}`,
+        button: 'Simplify',
+      },
+      humanize: {
+        title: 'Humanize',
+        delayJitterLabel: 'Delay jitter ±',
+        delayUnits: {
+          percent: '%',
+          ms: 'ms',
+        },
+        coordinateJitterLabel: 'Coordinate jitter ± (px)',
+        seedLabel: 'Seed',
+        newSeed: 'New',
+        scopeLabel: 'Apply to',
+        scopeOptions: {
+          selection: 'Selection',
+          all: 'Whole macro',
+        },
+        button: 'Humanize',
+        appliedSeed: (seed) => `Applied with seed ${seed}`,
+      },
+      repeat: {
+        title: 'Repeat selection',
+        countLabel: 'Times (total)',
+        gapLabel: 'Gap between runs (ms)',
+        offsetXLabel: 'Offset X per run',
+        offsetYLabel: 'Offset Y per run',
+        notContiguous: 'Select a contiguous range',
+        estimate: (added) => `Adds ${formatNumber(added)} events`,
+        button: 'Repeat',
+      },
       insert: {
         title: 'Add Action',
         typeLabel: 'Type',
@@ -379,18 +950,120 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
           leftClick: 'LMB',
           rightClick: 'RMB',
           keyPress: 'Key',
+          typeText: 'Type text',
+          chord: 'Key combination',
+          mousePath: 'Mouse path',
+          wheel: 'Wheel scroll',
         },
         keyLabel: 'Key',
+        chordLabel: 'Shortcut (press it)',
         delayLabel: 'Delay',
+        textLabel: 'Text',
+        textPlaceholder: 'Text to type',
+        layoutLabel: 'Layout',
+        layouts: {
+          us: 'English (US)',
+          ru: 'Russian',
+        },
+        keyDelayLabel: 'Between keys (ms)',
+        holdDelayLabel: 'Hold (ms)',
+        unsupported: (characters) => `Not on this layout, will be skipped: ${characters}`,
+        targetXLabel: 'Target X',
+        targetYLabel: 'Target Y',
+        fromPoint: (x, y) => `From (${formatNumber(x)}, ${formatNumber(y)})`,
+        curveLabel: 'Curve',
+        curves: {
+          linear: 'Linear',
+          eased: 'Eased',
+          bezier: 'Bezier',
+        },
+        durationLabel: 'Duration (ms)',
+        sampleRateLabel: 'Sample rate (Hz)',
+        clickLabel: 'Click at target',
+        clicks: {
+          none: 'None',
+          left: 'LMB',
+          right: 'RMB',
+          middle: 'MMB',
+        },
+        notchesLabel: 'Wheel notches',
+        notchesHint: 'Positive scrolls up, negative down',
+        notchDelayLabel: 'Between notches (ms)',
+        pickPoint: 'Pick on preview',
+        pickingPoint: 'Click the preview…',
         button: 'Add',
       },
     },
+    scriptExport: {
+      title: 'Export to script',
+      formatLabel: 'Format',
+      mergePairsLabel: 'Merge down/up pairs',
+      minMoveLabel: 'Min mouse move (px)',
+      minMovePlaceholder: 'e.g. 5',
+      button: 'Export',
+    },
+    lint: {
+      title: 'Macro lint',
+      rules: {
+        zeroDelayClick: {
+          label: 'Too-fast clicks',
+          thresholdLabel: 'Min click delay (ms)',
+          finding: (value) => `Click ${formatNumber(value)} ms after the previous event`,
+        },
+        longIdleGap: {
+          label: 'Long idle gaps',
+          thresholdLabel: 'Gap from (ms)',
+          finding: (value) => `Idle gap of ${formatNumber(value)} ms`,
+        },
+        originClick: {
+          label: 'Clicks at (0,0)',
+          thresholdLabel: 'Radius (px)',
+          finding: (value) => `Click ${formatNumber(Math.round(value))} px from (0,0)`,
+        },
+        mixedHwnd: {
+          label: 'Mixed windows',
+          finding: (value) => `Different window: 0x${value.toString(16).toUpperCase()}`,
+        },
+        unknownMessage: {
+          label: 'Unknown messages',
+          finding: (value) => `Unknown message code 0x${value.toString(16).toUpperCase()}`,
+        },
+      },
+      row: (row) => `#${formatNumber(row)}`,
+      summary: (count) => `${formatNumber(count)} finding${count === 1 ? '' : 's'}`,
+      noFindings: 'No findings',
+      truncated: (shown, total) => `Showing ${formatNumber(shown)} of ${formatNumber(total)}`,
+    },
+    mergeDialog: {
+      title: (fileName) => `Merge ${fileName}`,
+      summary: (events, duration, mouse, keys, windows) =>
+        `${formatNumber(events)} event${events === 1 ? '' : 's'} · ${duration} · ${formatNumber(mouse)} mouse, ${formatNumber(keys)} keyboard, ${formatNumber(windows)} window${windows === 1 ? '' : 's'}`,
+      noMousePath: 'No mouse movement in the selected range',
+      fromLabel: 'From event #',
+      toLabel: 'To event #',
+      positionLabel: 'Insert',
+      positions: {
+        afterSelection: 'After selection',
+        beforeSelection: 'Before selection',
+        end: 'At the end',
+        timestamp: 'At timestamp',
+      },
+      noSelection: 'Nothing is selected — events can go at the end or at a timestamp.',
+      timestampLabel: 'Timestamp',
+      timestampPlaceholder: '00:30.500 or 30500',
+      timestampInvalid: 'Enter time as mm:ss or milliseconds',
+      gapLabel: 'Gap before merged events (ms)',
+      remapHwnd: (hwnd) => `Send merged events to window ${hwnd}`,
+      confirm: 'Merge',
+      cancel: 'Cancel',
+    },
     preview: {
       title: 'Preview',
       play: 'Play',
       pause: 'Pause',
       keyboardTimeline: 'Keyboard events timeline',
       mouseTimeline: 'Mouse button timeline',
+      markersTimeline: 'Markers and sections',
       formatKeyStatusLabel: (message, baseLabel) => {
         if (message === 0x0100 || message === 0x0104) {
           return `${baseLabel} (press)`
@@ -402,6 +1075,48 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
       },
       formatKeyTooltip: (_message, keyName, code, statusLabel) => `${statusLabel} · ${keyName} (code: ${code})`,
       formatMouseTooltip: (message, x, y) => `${describeMouseAction(message, 'en')} · (${formatNumber(x)}, ${formatNumber(y)})`,
+      toolsLabel: 'Tool',
+      tools: {
+        move: 'Move',
+        rectangle: 'Rectangle',
+        lasso: 'Lasso',
+      },
+      selectHint: 'Drag around points; hold Shift to add to the selection',
+      pickScreenHint: (width, height) => `No mouse path yet: the canvas stands for a ${width}×${height} screen`,
+    },
+    timeline: {
+      title: 'Timeline',
+      lanes: {
+        keyboard: 'Keyboard',
+        buttons: 'Mouse buttons',
+        moves: 'Moves',
+        wheel: 'Wheel',
+      },
+      zoomIn: 'Zoom in',
+      zoomOut: 'Zoom out',
+      fit: 'Fit',
+      ripple: 'Ripple later events',
+      hint: 'Drag a marker to change its delay; drag over empty space to select; Ctrl+wheel zooms',
+      markerTooltip: (row, label, time, delay) =>
+        `#${formatNumber(row)} · ${label} · ${formatNumber(time)} ms (delay ${formatNumber(delay)} ms)`,
+      grouped: (count) => `${formatNumber(count)} events — zoom in to separate them`,
+    },
+    markers: {
+      title: 'Markers',
+      empty: 'No markers yet. Select an event or a range and add one.',
+      nameLabel: 'Name',
+      namePlaceholder: 'e.g. “login done”',
+      colorLabel: 'Color',
+      addMarker: 'Add marker',
+      addSection: 'Add section',
+      notContiguous: 'Select one event or a contiguous range',
+      defaultName: (count) => `Marker ${formatNumber(count)}`,
+      position: (row, endRow, timestamp) =>
+        row === endRow
+          ? `#${formatNumber(row)} · ${timestamp}`
+          : `#${formatNumber(row)}–${formatNumber(endRow)} · ${timestamp}`,
+      renameAria: (name) => `Rename marker “${name}”`,
+      remove: 'Remove',
     },
     eventTable: {
       columns: {
@@ -409,9 +1124,16 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
         paramL: 'Param L',
         paramH: 'Param H',
         delay: 'Delay (ms)',
+        hwnd: 'Window (hwnd)',
         timestamp: 'Timestamp',
+        comment: 'Note',
         actions: 'Actions',
       },
+      commentPlaceholder: 'Add a note',
+      coordinateX: 'X',
+      coordinateY: 'Y',
+      wheelDelta: 'Wheel Δ',
+      editFieldAria: (field, index) => `${field} of event ${formatNumber(index)}`,
       selectAllLabel: 'Select all events',
       clearSelectionLabel: 'Clear selection',
       selectEventAria: (index) => `Select event ${formatNumber(index)}`,
@@ -421,8 +1143,12 @@ const createLocaleStrings = (locale: LocaleKey, formatNumber: (value: number) =>
       keyReleaseDetail: (keyName) => `Key release: ${keyName}`,
       moveDetail: (x, y) => `Move to (${formatNumber(x)}, ${formatNumber(y)})`,
       mouseActionDetail: (message, x, y) => `${describeMouseAction(message, 'en')} at (${formatNumber(x)}, ${formatNumber(y)})`,
-      wheelDetail: (value) => `Wheel event (raw value: ${formatNumber(value)})`,
+      wheelDetail: (delta, notches) => {
+        const count = Math.abs(notches)
+        return `Wheel ${delta >= 0 ? 'up' : 'down'} (Δ ${formatNumber(delta)}, ${formatNumber(count)} notch${count === 1 ? '' : 'es'})`
+      },
       fallbackDetail: (paramL, paramH) => `Params L/H: ${formatNumber(paramL)}/${formatNumber(paramH)}`,
+      previewChange: (value) => `→ ${value}`,
     },
   }
 }
@@ -432,15 +1158,19 @@ const LOCALE_OPTIONS: Array<{ key: LocaleKey; flag: string }> = [
   { key: 'en', flag: usFlag },
 ]
 
-const isKeyboardEvent = (message: number) => message === 0x0100 || message === 0x0101 || message === 0x0104 || message === 0x0105
+const triggerDownload = ({ blob, fileName }: { blob: Blob; fileName: string }) => {
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.click()
+
+  URL.revokeObjectURL(url)
+}
+
+const isKeyboardEvent = (message: number) => KEY_MESSAGES.has(message)
 
-const isMouseButtonEvent = (message: number) =>
-  message === 0x0201 ||
-  message === 0x0202 ||
-  message === 0x0204 ||
-  message === 0x0205 ||
-  message === 0x0207 ||
-  message === 0x0208
+const isMouseButtonEvent = (message: number) => MOUSE_BUTTON_MESSAGES.has(message)
 
 function App() {
   const {
@@ -452,28 +1182,67 @@ function App() {
     error,
     loadFile,
     updateDelay,
+    updateEvent,
+    movePoint,
     removeEvent,
+    setComment,
     resetChanges,
     exportRec,
+    exportText,
+    exportScript,
+    exportProject,
+    markers,
+    addMarker,
+    updateMarker,
+    removeMarker,
     selectedIds,
     selectedCount,
     toggleSelection,
     selectAll,
+    selectEvents,
     clearSelection,
     applyDelayToSelection,
     addDelayToSelection,
     clampSmallDelays,
+    scaleTiming,
+    transformCoordinates,
+    simplifyMousePath,
+    humanize,
+    replaceAll,
+    releaseStuckInputs,
     deleteSelected,
+    copySelection,
+    cutSelection,
+    pasteEvents,
+    repeatSelection,
     undo,
     redo,
     canUndo,
     canRedo,
     insertEvents,
-    mergeFile,
+    readMacroFile,
+    mergeEvents,
+    retimeEvent,
   } = useRecEditor()
 
-  const [addType, setAddType] = useState<'leftClick' | 'rightClick' | 'keyPress'>('leftClick')
+  const [addType, setAddType] = useState<
+    'leftClick' | 'rightClick' | 'keyPress' | 'typeText' | 'chord' | 'mousePath' | 'wheel'
+  >('leftClick')
   const [addKey, setAddKey] = useState<number>(0x41) // 'A'
+  const [addModifiers, setAddModifiers] = useState<KeyChord['modifiers']>({ ctrl: true })
+  const [addText, setAddText] = useState('')
+  const [addLayout, setAddLayout] = useState<KeyboardLayoutId>('us')
+  const [addKeyDelay, setAddKeyDelay] = useState('50')
+  const [addHoldDelay, setAddHoldDelay] = useState('30')
+  const [addTargetX, setAddTargetX] = useState('0')
+  const [addTargetY, setAddTargetY] = useState('0')
+  const [addCurve, setAddCurve] = useState<MousePathCurve>('eased')
+  const [addPathDuration, setAddPathDuration] = useState('300')
+  const [addSampleRate, setAddSampleRate] = useState('60')
+  const [addClick, setAddClick] = useState<MouseButton | 'none'>('left')
+  const [addNotches, setAddNotches] = useState('-3')
+  const [addNotchDelay, setAddNotchDelay] = useState('30')
+  const [isPickingPoint, setIsPickingPoint] = useState(false)
   const [addDelay, setAddDelay] = useState('500')
 
   const [locale, setLocale] = useState<LocaleKey>('ru')
@@ -484,11 +1253,24 @@ function App() {
   const [setDelayValue, setSetDelayValue] = useState('')
   const [deltaValue, setDeltaValue] = useState('')
   const [jitterValue, setJitterValue] = useState('50')
+  const [scaleFactor, setScaleFactor] = useState('0.5')
+  const [scaleMinDelay, setScaleMinDelay] = useState('')
+  const [scaleOnlyAbove, setScaleOnlyAbove] = useState('')
+  const [scaleScope, setScaleScope] = useState<OperationScope>('selection')
+  const [pasteDelay, setPasteDelay] = useState('100')
+  const [simplifyTolerance, setSimplifyTolerance] = useState('3')
+  const [simplifyScope, setSimplifyScope] = useState<OperationScope>('selection')
+  const [showSimplifyPreview, setShowSimplifyPreview] = useState(true)
   const [actionQuery, setActionQuery] = useState('')
   const [timestampQuery, setTimestampQuery] = useState('')
+  const [commentQuery, setCommentQuery] = useState('')
   const [searchMessage, setSearchMessage] = useState<string>()
   const [actionFilter, setActionFilter] = useState<ActionFilter>('all')
   const [keyboardKeyFilter, setKeyboardKeyFilter] = useState<string>('all')
+  const [eventQuery, setEventQuery] = useState('')
+  const [isFindReplaceOpen, setFindReplaceOpen] = useState(false)
+  const [replaceDraft, setReplaceDraft] = useState<{ rule: ReplaceRule | null; scope: OperationScope }>()
+  const [showOnlyReplaced, setShowOnlyReplaced] = useState(false)
   const [activeEventId, setActiveEventId] = useState<string>()
   const [delaySortOrder, setDelaySortOrder] = useState<'none' | 'asc' | 'desc'>('none')
   const lastAutoScrollRef = useRef<{ id?: string; index?: number; visibleIndex?: number }>({})
@@ -504,10 +1286,46 @@ function App() {
     return Array.from(keys).sort((a, b) => a.localeCompare(b, localeKey))
   }, [events, locale])
 
+  const compiledQuery = useMemo(() => {
+    try {
+      return { predicate: compileEventQuery(eventQuery) }
+    } catch (err) {
+      return { predicate: null, error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [eventQuery])
+
+  // Rows the open find & replace would change, mapped to their replacements for the table preview
+  const replacePreview = useMemo(() => {
+    if (!isFindReplaceOpen || !replaceDraft?.rule) {
+      return undefined
+    }
+
+    const { rule, scope } = replaceDraft
+    const next = replaceEvents(
+      events,
+      rule,
+      scope === 'selection' ? (event) => selectedIds.has(event.id) : undefined,
+    )
+    const changes = new Map<string, EditorEvent>()
+    next.forEach((event, index) => {
+      if (event !== events[index]) {
+        changes.set(event.id, event)
+      }
+    })
+    return changes
+  }, [events, isFindReplaceOpen, replaceDraft, selectedIds])
+
   const filteredRows = useMemo(() => {
+    const { predicate } = compiledQuery
     const rows = events
       .map((event, index) => ({ event, index }))
       .filter(({ event }) => {
+        if (predicate && !predicate(event)) {
+          return false
+        }
+        if (replacePreview && showOnlyReplaced && !replacePreview.has(event.id)) {
+          return false
+        }
         if (actionFilter === 'keyboard') {
           if (!isKeyboardEvent(event.message)) {
             return false
@@ -540,7 +1358,7 @@ function App() {
     }
 
     return rows
-  }, [events, actionFilter, keyboardKeyFilter, delaySortOrder])
+  }, [events, compiledQuery, replacePreview, showOnlyReplaced, actionFilter, keyboardKeyFilter, delaySortOrder])
 
   const visibleEvents = useMemo(() => filteredRows.map((row) => row.event), [filteredRows])
   const visibleIndexes = useMemo(() => filteredRows.map((row) => row.index), [filteredRows])
@@ -567,6 +1385,13 @@ function App() {
     return iterator.value
   }, [selectedIds])
 
+  const selectedRange = useMemo(() => findContiguousSelection(events, selectedIds), [events, selectedIds])
+
+  const mouseBounds = useMemo(() => {
+    const { points, bounds } = buildPreviewData(events)
+    return points.length ? bounds : undefined
+  }, [events])
+
   const previewRef = useRef<PreviewPaneHandle>(null)
   const eventTableRef = useRef<EventTableHandle>(null)
 
@@ -610,6 +1435,58 @@ function App() {
     clampSmallDelays(numeric)
   }, [clampSmallDelays, jitterValue, parseNumberInput])
 
+  const scaleOptions = useMemo(() => {
+    const factor = parseNumberInput(scaleFactor)
+    if (factor === null || factor < 0) {
+      return null
+    }
+
+    return {
+      factor,
+      minDelay: parseNumberInput(scaleMinDelay) ?? undefined,
+      onlyAbove: parseNumberInput(scaleOnlyAbove) ?? undefined,
+      scope: scaleScope,
+    }
+  }, [parseNumberInput, scaleFactor, scaleMinDelay, scaleOnlyAbove, scaleScope])
+
+  const scaledDuration = useMemo(() => {
+    if (!scaleOptions || (scaleOptions.scope === 'selection' && !selectedIds.size)) {
+      return null
+    }
+
+    const isTarget = scaleOptions.scope === 'all' ? undefined : (event: EditorEvent) => selectedIds.has(event.id)
+    const scaled = scaleDelays(events, scaleOptions.factor, scaleOptions, isTarget)
+    return scaled.reduce((total, event, index) => (index === 0 ? total : total + event.delay), 0)
+  }, [events, scaleOptions, selectedIds])
+
+  const simplifiedEvents = useMemo(() => {
+    const tolerance = parseNumberInput(simplifyTolerance)
+    if (tolerance === null || tolerance < 0 || (simplifyScope === 'selection' && !selectedIds.size)) {
+      return null
+    }
+
+    const isTarget = simplifyScope === 'all' ? undefined : (event: EditorEvent) => selectedIds.has(event.id)
+    return simplifyMouseMoves(events, tolerance, isTarget)
+  }, [events, parseNumberInput, selectedIds, simplifyScope, simplifyTolerance])
+
+  const handleSimplifyPath = useCallback(() => {
+    const tolerance = parseNumberInput(simplifyTolerance)
+    if (tolerance === null) {
+      return
+    }
+
+    simplifyMousePath(tolerance, simplifyScope)
+  }, [parseNumberInput, simplifyMousePath, simplifyScope, simplifyTolerance])
+
+  const handleScaleTiming = useCallback(() => {
+    if (!scaleOptions) {
+      return
+    }
+
+    const { factor, ...options } = scaleOptions
+    scaleTiming(factor, options)
+  }, [scaleOptions, scaleTiming])
+
   const handleFilterChange = useCallback((value: ActionFilter) => {
     setActionFilter(value)
     setSearchMessage(undefined)
@@ -618,45 +1495,135 @@ function App() {
     }
   }, [])
 
+  const handleQueryChange = useCallback((value: string) => {
+    setEventQuery(value)
+    setSearchMessage(undefined)
+  }, [])
+
+  const handleSelectMatches = useCallback(
+    () => selectEvents(filteredRows.map((row) => row.event.id)),
+    [filteredRows, selectEvents],
+  )
+
+  const handleReplaceRuleChange = useCallback((rule: ReplaceRule | null, scope: OperationScope) => {
+    setReplaceDraft({ rule, scope })
+  }, [])
+
+  const handleReplaceAll = useCallback(() => {
+    if (replaceDraft?.rule) {
+      replaceAll(replaceDraft.rule, replaceDraft.scope)
+    }
+  }, [replaceAll, replaceDraft])
+
+  const handleCloseFindReplace = useCallback(() => {
+    setFindReplaceOpen(false)
+    setReplaceDraft(undefined)
+    setShowOnlyReplaced(false)
+  }, [])
+
   const handleKeyboardKeyChange = useCallback((value: string) => {
     setKeyboardKeyFilter(value)
     setSearchMessage(undefined)
   }, [])
 
+  // New actions go after the selection, or at the end when nothing is selected
+  const addInsertIndex = useMemo(() => {
+    const selectedIndexes = Array.from(selectedIds)
+      .map(id => eventIndexById.get(id))
+      .filter((idx): idx is number => idx !== undefined)
+    return selectedIndexes.length > 0 ? Math.max(...selectedIndexes) + 1 : events.length
+  }, [events.length, selectedIds, eventIndexById])
+
+  // The cursor position a generated mouse path starts from
+  const addCursor = useMemo(
+    () => (addType === 'mousePath' && findCursorPosition(events, addInsertIndex)) || { x: 0, y: 0 },
+    [addType, events, addInsertIndex],
+  )
+
   const handleAddAction = useCallback(() => {
     const delay = parseInt(addDelay, 10) || 0
-    let eventsToAdd: Array<Omit<EditorEvent, 'id' | 'time' | 'delay'>> = []
+    let eventsToAdd: Array<Partial<Pick<EditorEvent, 'delay'>> & Omit<EditorEvent, 'id' | 'time' | 'delay'>> = []
+
+    const target = { x: parseInt(addTargetX, 10) || 0, y: parseInt(addTargetY, 10) || 0 }
 
     if (addType === 'leftClick') {
       eventsToAdd = [
-        { message: 0x0201, paramL: 0, paramH: 0, hwnd: events[0]?.hwnd || 0 },
-        { message: 0x0202, paramL: 0, paramH: 0, hwnd: events[0]?.hwnd || 0 },
+        { message: 0x0201, ...encodeMousePoint(target), hwnd: events[0]?.hwnd || 0 },
+        { message: 0x0202, ...encodeMousePoint(target), hwnd: events[0]?.hwnd || 0 },
       ]
     } else if (addType === 'rightClick') {
       eventsToAdd = [
-        { message: 0x0204, paramL: 0, paramH: 0, hwnd: events[0]?.hwnd || 0 },
-        { message: 0x0205, paramL: 0, paramH: 0, hwnd: events[0]?.hwnd || 0 },
+        { message: 0x0204, ...encodeMousePoint(target), hwnd: events[0]?.hwnd || 0 },
+        { message: 0x0205, ...encodeMousePoint(target), hwnd: events[0]?.hwnd || 0 },
       ]
     } else if (addType === 'keyPress') {
       eventsToAdd = [
         { message: 0x0100, paramL: addKey, paramH: 0, hwnd: events[0]?.hwnd || 0 },
         { message: 0x0101, paramL: addKey, paramH: 0, hwnd: events[0]?.hwnd || 0 },
       ]
+    } else if (addType === 'typeText') {
+      eventsToAdd = typeText(addText, {
+        layout: KEYBOARD_LAYOUTS[addLayout],
+        keyDelay: parseInt(addKeyDelay, 10) || 0,
+        holdDelay: parseInt(addHoldDelay, 10) || 0,
+        hwnd: events[0]?.hwnd || 0,
+      }).events
+    } else if (addType === 'chord') {
+      eventsToAdd = buildChordEvents(
+        { modifiers: addModifiers, key: addKey },
+        { stepDelay: parseInt(addKeyDelay, 10) || 0, hwnd: events[0]?.hwnd || 0 },
+      )
+    } else if (addType === 'mousePath') {
+      eventsToAdd = buildMousePath(
+        addCursor,
+        target,
+        {
+          curve: addCurve,
+          duration: parseInt(addPathDuration, 10) || 0,
+          sampleRate: parseInt(addSampleRate, 10) || 1,
+          click: addClick === 'none' ? undefined : addClick,
+          hwnd: events[0]?.hwnd || 0,
+        },
+      )
+    } else if (addType === 'wheel') {
+      eventsToAdd = buildWheelEvents(parseInt(addNotches, 10) || 0, {
+        notchDelay: parseInt(addNotchDelay, 10) || 0,
+        hwnd: events[0]?.hwnd || 0,
+      })
     }
 
-    // Insert at the end or after selection
-    let insertIndex = events.length
-    if (selectedIds.size > 0) {
-      const selectedIndexes = Array.from(selectedIds)
-        .map(id => eventIndexById.get(id))
-        .filter((idx): idx is number => idx !== undefined)
-      if (selectedIndexes.length > 0) {
-        insertIndex = Math.max(...selectedIndexes) + 1
-      }
+    if (!eventsToAdd.length) {
+      return
     }
 
-    insertEvents(insertIndex, eventsToAdd, delay)
-  }, [addDelay, addType, addKey, events, insertEvents, selectedIds, eventIndexById])
+    insertEvents(addInsertIndex, eventsToAdd, delay)
+  }, [
+    addDelay,
+    addType,
+    addKey,
+    addModifiers,
+    addText,
+    addLayout,
+    addKeyDelay,
+    addHoldDelay,
+    addCursor,
+    addTargetX,
+    addTargetY,
+    addCurve,
+    addPathDuration,
+    addSampleRate,
+    addClick,
+    addNotches,
+    addNotchDelay,
+    addInsertIndex,
+    events,
+    insertEvents,
+  ])
+
+  const unsupportedTextCharacters = useMemo(
+    () => (addType === 'typeText' ? typeText(addText, { layout: KEYBOARD_LAYOUTS[addLayout] }).unsupported : []),
+    [addType, addText, addLayout],
+  )
 
   const handleKeyInputKeyDown = useCallback((e: React.KeyboardEvent) => {
     e.preventDefault()
@@ -667,6 +1634,24 @@ function App() {
     }
   }, [])
 
+  const handleChordKeyDown = useCallback((e: React.KeyboardEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (!e.keyCode) {
+      return
+    }
+
+    // Held modifiers replace the checkboxes; a bare key keeps them so Alt+Tab-style chords the OS
+    // intercepts can still be built from the checkboxes.
+    const held = { ctrl: e.ctrlKey, alt: e.altKey, shift: e.shiftKey, win: e.metaKey }
+    if (Object.values(held).some(Boolean)) {
+      setAddModifiers(held)
+    }
+    if (!chordModifierForKey(e.keyCode)) {
+      setAddKey(e.keyCode)
+    }
+  }, [])
+
   const handleToggleDelaySort = useCallback(() => {
     setDelaySortOrder((previous) => {
       if (previous === 'none') {
@@ -842,6 +1827,66 @@ function App() {
     }
   }, [events, focusEventByIndex, parseTimestamp, strings, timestampQuery])
 
+  /** Jumps to the next event (after the current selection, wrapping around) whose note contains the query. */
+  const handleCommentSearch = useCallback(() => {
+    const needle = commentQuery.trim().toLocaleLowerCase()
+    const start = primarySelectionId !== undefined ? (eventIndexById.get(primarySelectionId) ?? -1) + 1 : 0
+
+    for (let offset = 0; offset < events.length; offset += 1) {
+      const index = (start + offset) % events.length
+      const comment = events[index].comment
+      if (comment && comment.toLocaleLowerCase().includes(needle)) {
+        focusEventByIndex(index)
+        return
+      }
+    }
+
+    setSearchMessage(strings.search.commentMissing)
+  }, [commentQuery, eventIndexById, events, focusEventByIndex, primarySelectionId, strings])
+
+  const handlePickPoint = useCallback((point: MousePoint) => {
+    setAddTargetX(String(point.x))
+    setAddTargetY(String(point.y))
+    setIsPickingPoint(false)
+  }, [])
+
+  const handleSelectPoints = useCallback(
+    (ids: string[], extend: boolean) => selectEvents(ids, { extend }),
+    [selectEvents],
+  )
+
+  const eventTimeOf = useCallback((index: number) => events[index]?.time ?? 0, [events])
+
+  const handleAddMarker = useCallback(
+    (name: string, color: string) => {
+      if (!selectedRange) {
+        return
+      }
+
+      addMarker({
+        name,
+        color,
+        eventId: events[selectedRange.start].id,
+        ...(selectedRange.end > selectedRange.start ? { endEventId: events[selectedRange.end].id } : {}),
+      })
+    },
+    [addMarker, events, selectedRange],
+  )
+
+  const handleRenameMarker = useCallback((id: string, name: string) => updateMarker(id, { name }), [updateMarker])
+
+  const handleRecolorMarker = useCallback((id: string, color: string) => updateMarker(id, { color }), [updateMarker])
+
+  const handleJumpToMarker = useCallback(
+    (marker: PlacedMarker) => {
+      focusEventByIndex(marker.index)
+      if (marker.endIndex > marker.index) {
+        selectEvents(events.slice(marker.index, marker.endIndex + 1).map((event) => event.id))
+      }
+    },
+    [events, focusEventByIndex, selectEvents],
+  )
+
   const handlePreviewFocus = useCallback(
     (id: string) => {
       const index = events.findIndex((event) => event.id === id)
@@ -852,6 +1897,42 @@ function App() {
     [events, focusEventByIndex],
   )
 
+  const handleCopy = useCallback(async () => {
+    const text = copySelection()
+    if (text === undefined) {
+      return
+    }
+
+    try {
+      await navigator.clipboard.writeText(text)
+    } catch (err) {
+      console.error(err)
+    }
+  }, [copySelection])
+
+  const handleCut = useCallback(async () => {
+    const text = copySelection()
+    if (text === undefined) {
+      return
+    }
+
+    try {
+      await navigator.clipboard.writeText(text)
+      cutSelection()
+    } catch (err) {
+      console.error(err)
+    }
+  }, [copySelection, cutSelection])
+
+  const handlePaste = useCallback(async () => {
+    try {
+      const text = await navigator.clipboard.readText()
+      pasteEvents(text, parseNumberInput(pasteDelay) ?? 0)
+    } catch (err) {
+      console.error(err)
+    }
+  }, [parseNumberInput, pasteDelay, pasteEvents])
+
   useEffect(() => {
     const handler = (event: KeyboardEvent) => {
       const activeElement = document.activeElement as HTMLElement | null
@@ -887,6 +1968,24 @@ function App() {
         return
       }
 
+      if ((key === 'c' || key === 'C') && event.ctrlKey) {
+        event.preventDefault()
+        void handleCopy()
+        return
+      }
+
+      if ((key === 'x' || key === 'X') && event.ctrlKey) {
+        event.preventDefault()
+        void handleCut()
+        return
+      }
+
+      if ((key === 'v' || key === 'V') && event.ctrlKey) {
+        event.preventDefault()
+        void handlePaste()
+        return
+      }
+
       if (key === 'Delete') {
         event.preventDefault()
         deleteSelected()
@@ -913,7 +2012,7 @@ function App() {
 
     window.addEventListener('keydown', handler)
     return () => window.removeEventListener('keydown', handler)
-  }, [addDelayToSelection, deleteSelected, hasSelection, redo, selectAll, undo])
+  }, [addDelayToSelection, deleteSelected, handleCopy, handleCut, handlePaste, hasSelection, redo, selectAll, undo])
 
   const handleDrop = useCallback<NonNullable<DropzoneOptions['onDrop']>>(
     async (acceptedFiles, _fileRejections, _event) => {
@@ -927,7 +2026,7 @@ function App() {
   )
 
   const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
-    accept: { 'application/octet-stream': ['.rec'] },
+    accept: { 'application/octet-stream': ['.rec'], 'text/plain': ['.txt'], 'application/json': ['.rtproj'] },
     maxFiles: 1,
     multiple: false,
     noClick: true,
@@ -940,16 +2039,63 @@ function App() {
       return
     }
 
-    const url = URL.createObjectURL(result.blob)
-    const anchor = document.createElement('a')
-    anchor.href = url
-    anchor.download = result.fileName
-    anchor.click()
-
-    URL.revokeObjectURL(url)
+    triggerDownload(result)
   }, [exportRec])
 
+  const handleExportText = useCallback(() => {
+    const result = exportText()
+    if (!result) {
+      return
+    }
+
+    triggerDownload(result)
+  }, [exportText])
+
+  const handleSaveProject = useCallback(() => {
+    const result = exportProject()
+    if (!result) {
+      return
+    }
+
+    triggerDownload(result)
+  }, [exportProject])
+
+  const handleExportScript = useCallback<React.ComponentProps<typeof ScriptExportPanel>['onExport']>(
+    (format, options) => {
+      const result = exportScript(format, options)
+      if (!result) {
+        return
+      }
+
+      triggerDownload(result)
+    },
+    [exportScript],
+  )
+
+  const importTextInputRef = useRef<HTMLInputElement>(null)
+
+  const handleImportTextClick = useCallback(() => {
+    importTextInputRef.current?.click()
+  }, [])
+
+  const handleImportTextChange = useCallback<React.ChangeEventHandler<HTMLInputElement>>(
+    async (event) => {
+      const files = event.target.files
+      if (!files || files.length === 0) {
+        return
+      }
+
+      await loadFile(files[0])
+
+      if (importTextInputRef.current) {
+        importTextInputRef.current.value = ''
+      }
+    },
+    [loadFile],
+  )
+
   const mergeInputRef = useRef<HTMLInputElement>(null)
+  const [mergeCandidate, setMergeCandidate] = useState<IncomingMacro | null>(null)
 
   const handleMergeClick = useCallback(() => {
     mergeInputRef.current?.click()
@@ -962,16 +2108,31 @@ function App() {
         return
       }
 
-      await mergeFile(files[0])
+      const incoming = await readMacroFile(files[0])
+      if (incoming?.events.length) {
+        setMergeCandidate(incoming)
+      }
 
       // Reset input so the same file can be selected again if needed
       if (mergeInputRef.current) {
         mergeInputRef.current.value = ''
       }
     },
-    [mergeFile],
+    [readMacroFile],
   )
 
+  const handleMergeConfirm = useCallback(
+    (incoming: EditorEvent[], options: MergeOptions) => {
+      mergeEvents(incoming, options)
+      setMergeCandidate(null)
+    },
+    [mergeEvents],
+  )
+
+  const handleMergeCancel = useCallback(() => setMergeCandidate(null), [])
+
+  const mergeTargetHwnd = useMemo(() => (mergeCandidate ? mostCommonHwnd(events) : 0), [events, mergeCandidate])
+
   const unsupportedMessages = useMemo(() => {
     const unique = new Set<number>()
     events.forEach((entry) => {
@@ -982,6 +2143,8 @@ function App() {
     return [...unique]
   }, [events])
 
+  const inputBalanceIssues = useMemo(() => findInputBalanceIssues(events), [events])
+
   return (
     <div className="app">
       <header>
@@ -1014,6 +2177,16 @@ function App() {
         <button type="button" onClick={open} disabled={isLoading}>
           {isLoading ? strings.dropzone.loading : strings.dropzone.button}
         </button>
+        <button type="button" onClick={handleImportTextClick} disabled={isLoading}>
+          {strings.dropzone.importText}
+        </button>
+        <input
+          type="file"
+          ref={importTextInputRef}
+          onChange={handleImportTextChange}
+          style={{ display: 'none' }}
+          accept=".txt"
+        />
       </div>
 
       {error && <div className="status error">{error}</div>}
@@ -1058,15 +2231,50 @@ function App() {
             <button type="button" onClick={handleMergeClick} disabled={!events.length}>
               {strings.actions.merge}
             </button>
+            <button type="button" onClick={handleExportText} disabled={!events.length}>
+              {strings.actions.exportText}
+            </button>
+            <button type="button" onClick={handleSaveProject} disabled={!events.length}>
+              {strings.actions.saveProject}
+            </button>
+            <button
+              type="button"
+              aria-expanded={isFindReplaceOpen}
+              onClick={() => (isFindReplaceOpen ? handleCloseFindReplace() : setFindReplaceOpen(true))}
+              disabled={!events.length}
+            >
+              {strings.actions.findReplace}
+            </button>
             <input
               type="file"
               ref={mergeInputRef}
               onChange={handleMergeFileChange}
               style={{ display: 'none' }}
-              accept=".rec"
+              accept=".rec,.txt"
             />
           </div>
 
+          {mergeCandidate && (
+            <MergeDialog
+              incoming={mergeCandidate}
+              hasSelection={hasSelection}
+              targetHwnd={mergeTargetHwnd}
+              parseTimestamp={parseTimestamp}
+              formatDuration={formatTimestamp}
+              onConfirm={handleMergeConfirm}
+              onCancel={handleMergeCancel}
+              strings={strings.mergeDialog}
+            />
+          )}
+
+          <ScriptExportPanel
+            disabled={!events.length}
+            onExport={handleExportScript}
+            strings={strings.scriptExport}
+          />
+
+          <MacroLintPanel events={events} onFocusIndex={focusEventByIndex} strings={strings.lint} />
+
           {unsupportedMessages.length > 0 && (
             <div className="status warning">
               {strings.status.unknownMessages(
@@ -1075,6 +2283,16 @@ function App() {
             </div>
           )}
 
+          {inputBalanceIssues.length > 0 && (
+            <InputBalanceWarnings
+              events={events}
+              issues={inputBalanceIssues}
+              onRelease={releaseStuckInputs}
+              onRemove={removeEvent}
+              strings={strings.inputBalance}
+            />
+          )}
+
           <PreviewPane
             ref={previewRef}
             events={events}
@@ -1082,9 +2300,30 @@ function App() {
             focusEventId={primarySelectionId}
             onFocusEvent={handlePreviewFocus}
             onActiveEventChange={setActiveEventId}
+            overlayEvents={
+              showSimplifyPreview && simplifiedEvents && simplifiedEvents.length !== events.length
+                ? simplifiedEvents
+                : undefined
+            }
+            pickMode={isPickingPoint}
+            onPickPoint={handlePickPoint}
+            onMovePoint={movePoint}
+            selectedIds={selectedIds}
+            onSelectPoints={handleSelectPoints}
+            markers={markers}
             strings={strings.preview}
           />
 
+          <TimelineEditor
+            events={events}
+            duration={duration}
+            selectedIds={selectedIds}
+            onRetime={retimeEvent}
+            onSelect={handleSelectPoints}
+            onFocusEvent={handlePreviewFocus}
+            strings={strings.timeline}
+          />
+
           <section className="selection-toolbar">
             <div className="selection-summary">
               <span>{strings.selection.summary(selectedCount, visibleSelectedCount, actionFilter !== 'all')}</span>
@@ -1098,6 +2337,24 @@ function App() {
                 <button type="button" onClick={deleteSelected} disabled={!hasSelection}>
                   {strings.selection.buttons.deleteSelected}
                 </button>
+                <button type="button" onClick={handleCopy} disabled={!hasSelection}>
+                  {strings.selection.buttons.copy}
+                </button>
+                <button type="button" onClick={handleCut} disabled={!hasSelection}>
+                  {strings.selection.buttons.cut}
+                </button>
+                <button type="button" onClick={handlePaste} disabled={!events.length}>
+                  {strings.selection.buttons.paste}
+                </button>
+                <label className="paste-delay">
+                  {strings.selection.pasteDelayLabel}
+                  <input
+                    type="number"
+                    min={0}
+                    value={pasteDelay}
+                    onChange={(event) => setPasteDelay(event.target.value)}
+                  />
+                </label>
               </div>
             </div>
 
@@ -1181,6 +2438,208 @@ function App() {
                 </div>
               )}
 
+              {addType === 'chord' && (
+                <>
+                  <div className="action-group">
+                    <label htmlFor="add-chord-input">{strings.selection.insert.chordLabel}</label>
+                    <input
+                      id="add-chord-input"
+                      type="text"
+                      value={formatChord({ modifiers: addModifiers, key: addKey })}
+                      onKeyDown={handleChordKeyDown}
+                      readOnly
+                      autoComplete="off"
+                    />
+                    <div className="chord-modifiers">
+                      {CHORD_MODIFIERS.map((modifier) => (
+                        <label key={modifier.id} className="checkbox-label">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(addModifiers[modifier.id])}
+                            onChange={(e) =>
+                              setAddModifiers((previous) => ({ ...previous, [modifier.id]: e.target.checked }))
+                            }
+                          />
+                          {modifier.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-chord-delay-input">{strings.selection.insert.keyDelayLabel}</label>
+                    <input
+                      id="add-chord-delay-input"
+                      type="number"
+                      min={0}
+                      value={addKeyDelay}
+                      onChange={(e) => setAddKeyDelay(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+
+              {(addType === 'leftClick' || addType === 'rightClick' || addType === 'mousePath') && (
+                <>
+                  <div className="action-group">
+                    <label htmlFor="add-target-x-input">{strings.selection.insert.targetXLabel}</label>
+                    <input
+                      id="add-target-x-input"
+                      type="number"
+                      value={addTargetX}
+                      onChange={(e) => setAddTargetX(e.target.value)}
+                    />
+                    {addType === 'mousePath' && (
+                      <span className="key-preview">{strings.selection.insert.fromPoint(addCursor.x, addCursor.y)}</span>
+                    )}
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-target-y-input">{strings.selection.insert.targetYLabel}</label>
+                    <input
+                      id="add-target-y-input"
+                      type="number"
+                      value={addTargetY}
+                      onChange={(e) => setAddTargetY(e.target.value)}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    className={`pick-point-button ${isPickingPoint ? 'active' : ''}`.trim()}
+                    onClick={() => setIsPickingPoint((previous) => !previous)}
+                    aria-pressed={isPickingPoint}
+                  >
+                    {isPickingPoint ? strings.selection.insert.pickingPoint : strings.selection.insert.pickPoint}
+                  </button>
+                </>
+              )}
+
+              {addType === 'mousePath' && (
+                <>
+                  <div className="action-group">
+                    <label htmlFor="add-curve-select">{strings.selection.insert.curveLabel}</label>
+                    <select
+                      id="add-curve-select"
+                      value={addCurve}
+                      onChange={(e) => setAddCurve(e.target.value as MousePathCurve)}
+                    >
+                      {MOUSE_PATH_CURVES.map((curve) => (
+                        <option key={curve} value={curve}>{strings.selection.insert.curves[curve]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-path-duration-input">{strings.selection.insert.durationLabel}</label>
+                    <input
+                      id="add-path-duration-input"
+                      type="number"
+                      min={0}
+                      value={addPathDuration}
+                      onChange={(e) => setAddPathDuration(e.target.value)}
+                    />
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-sample-rate-input">{strings.selection.insert.sampleRateLabel}</label>
+                    <input
+                      id="add-sample-rate-input"
+                      type="number"
+                      min={1}
+                      value={addSampleRate}
+                      onChange={(e) => setAddSampleRate(e.target.value)}
+                    />
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-click-select">{strings.selection.insert.clickLabel}</label>
+                    <select
+                      id="add-click-select"
+                      value={addClick}
+                      onChange={(e) => setAddClick(e.target.value as MouseButton | 'none')}
+                    >
+                      {Object.entries(strings.selection.insert.clicks).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+
+              {addType === 'wheel' && (
+                <>
+                  <div className="action-group">
+                    <label htmlFor="add-notches-input">{strings.selection.insert.notchesLabel}</label>
+                    <input
+                      id="add-notches-input"
+                      type="number"
+                      step={1}
+                      value={addNotches}
+                      onChange={(e) => setAddNotches(e.target.value)}
+                    />
+                    <span className="key-preview">{strings.selection.insert.notchesHint}</span>
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-notch-delay-input">{strings.selection.insert.notchDelayLabel}</label>
+                    <input
+                      id="add-notch-delay-input"
+                      type="number"
+                      min={0}
+                      value={addNotchDelay}
+                      onChange={(e) => setAddNotchDelay(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+
+              {addType === 'typeText' && (
+                <>
+                  <div className="action-group type-text-group">
+                    <label htmlFor="add-text-input">{strings.selection.insert.textLabel}</label>
+                    <input
+                      id="add-text-input"
+                      type="text"
+                      value={addText}
+                      placeholder={strings.selection.insert.textPlaceholder}
+                      onChange={(e) => setAddText(e.target.value)}
+                      autoComplete="off"
+                    />
+                    {unsupportedTextCharacters.length > 0 && (
+                      <span className="key-preview">
+                        {strings.selection.insert.unsupported(unsupportedTextCharacters.join(' '))}
+                      </span>
+                    )}
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-layout-select">{strings.selection.insert.layoutLabel}</label>
+                    <select
+                      id="add-layout-select"
+                      value={addLayout}
+                      onChange={(e) => setAddLayout(e.target.value as KeyboardLayoutId)}
+                    >
+                      {(Object.keys(KEYBOARD_LAYOUTS) as KeyboardLayoutId[]).map((layout) => (
+                        <option key={layout} value={layout}>{strings.selection.insert.layouts[layout]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-key-delay-input">{strings.selection.insert.keyDelayLabel}</label>
+                    <input
+                      id="add-key-delay-input"
+                      type="number"
+                      min={0}
+                      value={addKeyDelay}
+                      onChange={(e) => setAddKeyDelay(e.target.value)}
+                    />
+                  </div>
+                  <div className="action-group">
+                    <label htmlFor="add-hold-delay-input">{strings.selection.insert.holdDelayLabel}</label>
+                    <input
+                      id="add-hold-delay-input"
+                      type="number"
+                      min={0}
+                      value={addHoldDelay}
+                      onChange={(e) => setAddHoldDelay(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+
               <div className="action-group">
                 <label htmlFor="add-delay-input">{strings.selection.insert.delayLabel}</label>
                 <input
@@ -1191,13 +2650,153 @@ function App() {
                 />
               </div>
 
-              <button type="button" className="add-button" onClick={handleAddAction}>
+              <button
+                type="button"
+                className="add-button"
+                onClick={handleAddAction}
+                disabled={addType === 'typeText' && !addText}
+              >
                 {strings.selection.insert.button}
               </button>
             </div>
+            <div className="selection-actions tool-row">
+              <span className="group-title">{strings.selection.scale.title}</span>
+              <div className="action-group">
+                <label htmlFor="scale-factor-input">{strings.selection.scale.factorLabel}</label>
+                <input
+                  id="scale-factor-input"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={scaleFactor}
+                  onChange={(event) => setScaleFactor(event.target.value)}
+                  placeholder={strings.selection.scale.factorPlaceholder}
+                />
+              </div>
+              <div className="action-group">
+                <label htmlFor="scale-min-delay-input">{strings.selection.scale.minDelayLabel}</label>
+                <input
+                  id="scale-min-delay-input"
+                  type="number"
+                  min={0}
+                  value={scaleMinDelay}
+                  onChange={(event) => setScaleMinDelay(event.target.value)}
+                  placeholder={strings.selection.scale.optionalPlaceholder}
+                />
+              </div>
+              <div className="action-group">
+                <label htmlFor="scale-only-above-input">{strings.selection.scale.onlyAboveLabel}</label>
+                <input
+                  id="scale-only-above-input"
+                  type="number"
+                  min={0}
+                  value={scaleOnlyAbove}
+                  onChange={(event) => setScaleOnlyAbove(event.target.value)}
+                  placeholder={strings.selection.scale.optionalPlaceholder}
+                />
+              </div>
+              <div className="action-group">
+                <label htmlFor="scale-scope-select">{strings.selection.scale.scopeLabel}</label>
+                <select
+                  id="scale-scope-select"
+                  value={scaleScope}
+                  onChange={(event) => setScaleScope(event.target.value as OperationScope)}
+                >
+                  {(Object.keys(strings.selection.scale.scopeOptions) as OperationScope[]).map((scope) => (
+                    <option key={scope} value={scope}>
+                      {strings.selection.scale.scopeOptions[scope]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {scaledDuration !== null && (
+                <span className="estimate">
+                  {strings.selection.scale.estimate(strings.eventTable.timestampMs(scaledDuration))}
+                </span>
+              )}
+              <button
+                type="button"
+                className="add-button"
+                onClick={handleScaleTiming}
+                disabled={scaledDuration === null}
+              >
+                {strings.selection.scale.button}
+              </button>
+            </div>
+            <CoordinateTransformPanel
+              bounds={mouseBounds}
+              hasSelection={hasSelection}
+              onApply={transformCoordinates}
+              strings={strings.selection.coordinates}
+            />
+            <div className="selection-actions tool-row">
+              <span className="group-title">{strings.selection.simplify.title}</span>
+              <div className="action-group">
+                <label htmlFor="simplify-tolerance-input">{strings.selection.simplify.toleranceLabel}</label>
+                <input
+                  id="simplify-tolerance-input"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={simplifyTolerance}
+                  onChange={(event) => setSimplifyTolerance(event.target.value)}
+                />
+              </div>
+              <div className="action-group">
+                <label htmlFor="simplify-scope-select">{strings.selection.scale.scopeLabel}</label>
+                <select
+                  id="simplify-scope-select"
+                  value={simplifyScope}
+                  onChange={(event) => setSimplifyScope(event.target.value as OperationScope)}
+                >
+                  {(Object.keys(strings.selection.scale.scopeOptions) as OperationScope[]).map((scope) => (
+                    <option key={scope} value={scope}>
+                      {strings.selection.scale.scopeOptions[scope]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={showSimplifyPreview}
+                  onChange={(event) => setShowSimplifyPreview(event.target.checked)}
+                />
+                {strings.selection.simplify.previewLabel}
+              </label>
+              {simplifiedEvents && (
+                <span className="estimate">
+                  {strings.selection.simplify.counts(events.length, simplifiedEvents.length)}
+                </span>
+              )}
+              <button
+                type="button"
+                className="add-button"
+                onClick={handleSimplifyPath}
+                disabled={!simplifiedEvents || simplifiedEvents.length === events.length}
+              >
+                {strings.selection.simplify.button}
+              </button>
+            </div>
+            <HumanizePanel hasSelection={hasSelection} onApply={humanize} strings={strings.selection.humanize} />
+            <RepeatSelectionPanel
+              segmentLength={selectedRange ? selectedRange.end - selectedRange.start + 1 : null}
+              hasSelection={hasSelection}
+              onApply={repeatSelection}
+              strings={strings.selection.repeat}
+            />
           </section>
 
           <section className="search-toolbar">
+            <QueryBar
+              query={eventQuery}
+              onQueryChange={handleQueryChange}
+              error={compiledQuery.error}
+              matchCount={filteredRows.length}
+              totalCount={events.length}
+              onSelectMatches={handleSelectMatches}
+              strings={strings.query}
+            />
             <div className="filter-buttons">
               {strings.filters.options.map((filter) => (
                 <button
@@ -1258,25 +2857,76 @@ function App() {
                 </button>
               </div>
             </div>
+            <div className="search-group">
+              <label htmlFor="search-comment">{strings.search.commentLabel}</label>
+              <div className="search-controls">
+                <input
+                  id="search-comment"
+                  type="text"
+                  value={commentQuery}
+                  onChange={(event) => setCommentQuery(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') {
+                      handleCommentSearch()
+                    }
+                  }}
+                  placeholder={strings.search.commentPlaceholder}
+                />
+                <button type="button" onClick={handleCommentSearch}>
+                  {strings.search.commentButton}
+                </button>
+              </div>
+            </div>
             {searchMessage && <div className="search-message">{searchMessage}</div>}
           </section>
 
-          <EventTable
-            ref={eventTableRef}
-            events={visibleEvents}
-            sourceIndexes={visibleIndexes}
-            selectedIds={selectedIds}
-            visibleSelectedCount={visibleSelectedCount}
-            onToggleSelection={toggleSelection}
-            onSelectAll={selectAll}
-            onClearSelection={clearSelection}
-            onDelayChange={updateDelay}
-            onDelete={removeEvent}
-            strings={strings.eventTable}
-            activeEventId={activeEventId}
-            delaySortOrder={delaySortOrder}
-            onToggleDelaySort={handleToggleDelaySort}
-          />
+          {isFindReplaceOpen && (
+            <FindReplacePanel
+              hasSelection={hasSelection}
+              affectedCount={replacePreview?.size ?? 0}
+              onlyAffected={showOnlyReplaced}
+              onOnlyAffectedChange={setShowOnlyReplaced}
+              onRuleChange={handleReplaceRuleChange}
+              onReplace={handleReplaceAll}
+              onClose={handleCloseFindReplace}
+              strings={strings.findReplace}
+            />
+          )}
+
+          <div className="table-workspace">
+            <EventTable
+              ref={eventTableRef}
+              events={visibleEvents}
+              sourceIndexes={visibleIndexes}
+              selectedIds={selectedIds}
+              visibleSelectedCount={visibleSelectedCount}
+              onToggleSelection={toggleSelection}
+              onSelectAll={selectAll}
+              onClearSelection={clearSelection}
+              onDelayChange={updateDelay}
+              onEventChange={updateEvent}
+              onDelete={removeEvent}
+              onCommentChange={setComment}
+              strings={strings.eventTable}
+              activeEventId={activeEventId}
+              delaySortOrder={delaySortOrder}
+              onToggleDelaySort={handleToggleDelaySort}
+              markers={markers}
+              previewChanges={replacePreview}
+            />
+            <MarkerSidebar
+              markers={markers}
+              selectedRange={selectedRange}
+              timeOf={eventTimeOf}
+              formatTimestamp={formatTimestamp}
+              onAdd={handleAddMarker}
+              onRename={handleRenameMarker}
+              onRecolor={handleRecolorMarker}
+              onRemove={removeMarker}
+              onJump={handleJumpToMarker}
+              strings={strings.markers}
+            />
+          </div>
         </>
       )}
     </div>
@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'vitest'
+
+import { encodeRec, parseRec } from '../lib/recParser'
+import { runCli, type CliIO } from './runCli'
+
+const hwnd = 0x10
+
+const createIO = (files: Record<string, Uint8Array | string>) => {
+  const output: string[] = []
+  const errors: string[] = []
+
+  const io: CliIO = {
+    readFile: (filePath) => {
+      const data = files[filePath]
+      if (data === undefined) {
+        throw new Error(`ENOENT: ${filePath}`)
+      }
+      return typeof data === 'string' ? new TextEncoder().encode(data) : data
+    },
+    writeFile: (filePath, data) => {
+      files[filePath] = data
+    },
+    stdout: (text) => output.push(text),
+    stderr: (text) => errors.push(text),
+  }
+
+  return { io, files, output, errors }
+}
+
+const sample = new Uint8Array(
+  encodeRec(
+    [
+      { message: 0x0200, paramL: 1, paramH: 1, delay: 0, hwnd },
+      { message: 0x0200, paramL: 2, paramH: 2, delay: 16, hwnd },
+      { message: 0x0201, paramL: 2, paramH: 2, delay: 100, hwnd },
+    ],
+    { baseTime: 500 },
+  ),
+)
+
+describe('runCli', () => {
+  test('prints macro information', () => {
+    const { io, output } = createIO({ 'a.rec': sample })
+
+    expect(runCli(['info', 'a.rec'], io)).toBe(0)
+    expect(output.join('')).toContain('events:   3')
+    expect(output.join('')).toContain('duration: 116 ms')
+  })
+
+  test('writes transformed recordings next to the input', () => {
+    const { io, files } = createIO({ 'dir/a.rec': sample })
+
+    expect(runCli(['strip-moves', 'dir/a.rec'], io)).toBe(0)
+
+    const result = parseRec(files['dir/a-edited.rec'] as Uint8Array)
+    expect(result.events).toHaveLength(1)
+    expect(result.baseTime).toBe(500)
+  })
+
+  test('converts to text and reports usage errors', () => {
+    const { io, files, errors } = createIO({ 'a.rec': sample })
+
+    expect(runCli(['convert', 'a.rec', '--to', 'text'], io)).toBe(0)
+    expect(files['a.txt']).toContain('+100ms LCLICK_DOWN 2 2')
+
+    expect(runCli(['scale-time', 'a.rec'], io)).toBe(1)
+    expect(errors.join('')).toContain('--factor expects a number.')
+  })
+})
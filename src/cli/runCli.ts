@@ -0,0 +1,231 @@
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+
+import { cloneAsEncodable, encodeRec, parseRec, type EncodableEvent, type ParseResult } from '../lib/recParser'
+import { SCRIPT_EXPORTERS, type ScriptFormat } from '../lib/scriptExporters'
+import { encodeTextMacro, parseTextMacro } from '../lib/textMacro'
+import {
+  clampSmallDelays,
+  concatTimelines,
+  scaleDelays,
+  stripMouseMoves,
+  summarizeMacro,
+} from '../lib/transforms'
+
+export interface CliIO {
+  readFile: (filePath: string) => Uint8Array
+  writeFile: (filePath: string, data: Uint8Array | string) => void
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+export const USAGE = `Usage: tinytask-edit <command> [options] <files...>
+
+Commands:
+  info <files...>                            Print event count, duration, window handles and unknown messages
+  scale-time <files...> --factor <n>         Multiply every delay by <n> (0.5 plays twice as fast)
+             [--min-delay <ms>] [--only-above <ms>]
+  clamp-jitter <files...> --threshold <ms>   Zero every delay shorter than <ms>
+  strip-moves <files...>                     Remove mouse moves, keeping click and key timing
+  merge <first> <second> [--gap <ms>]        Append <second> after <first>
+  convert <files...> --to <format>           Convert to text, json, ahk, xdotool or pyautogui
+
+Inputs may be binary .rec files or .txt text macros.
+
+Options:
+  -o, --output <file>   Output file (single input only; a .txt name writes a text macro)
+  --out-dir <dir>       Write outputs into <dir> instead of next to the inputs
+  -h, --help            Show this message
+`
+
+type CommandName = 'info' | 'scale-time' | 'clamp-jitter' | 'strip-moves' | 'merge' | 'convert'
+
+const COMMANDS = new Set<CommandName>(['info', 'scale-time', 'clamp-jitter', 'strip-moves', 'merge', 'convert'])
+
+const CONVERT_FORMATS = ['text', 'json', ...Object.keys(SCRIPT_EXPORTERS)]
+
+interface Macro {
+  events: EncodableEvent[]
+  baseTime: number
+}
+
+const MACRO_EXTENSION_PATTERN = /\.(rec|txt)$/i
+
+const loadMacro = (io: CliIO, filePath: string): Macro => {
+  const data = io.readFile(filePath)
+  const parsed: ParseResult = /\.txt$/i.test(filePath)
+    ? parseTextMacro(new TextDecoder().decode(data))
+    : parseRec(data)
+
+  return { events: cloneAsEncodable(parsed.events), baseTime: parsed.baseTime }
+}
+
+const encodeMacro = (macro: Macro, outputPath: string): Uint8Array | string => {
+  if (/\.txt$/i.test(outputPath)) {
+    return encodeTextMacro(macro.events, { baseTime: macro.baseTime })
+  }
+
+  return new Uint8Array(encodeRec(macro.events, { baseTime: macro.baseTime }))
+}
+
+const formatHex = (value: number) => `0x${value.toString(16).toUpperCase()}`
+
+const parseNumberOption = (value: string | undefined, name: string): number => {
+  const parsed = value === undefined ? Number.NaN : Number(value)
+
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--${name} expects a number.`)
+  }
+
+  return parsed
+}
+
+export function runCli(argv: string[], io: CliIO): number {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        'out-dir': { type: 'string' },
+        factor: { type: 'string' },
+        'min-delay': { type: 'string' },
+        'only-above': { type: 'string' },
+        threshold: { type: 'string' },
+        gap: { type: 'string' },
+        to: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+
+    const [command, ...files] = positionals
+
+    if (values.help || !command) {
+      io.stdout(USAGE)
+      return values.help ? 0 : 1
+    }
+
+    if (!COMMANDS.has(command as CommandName)) {
+      throw new Error(`Unknown command "${command}".`)
+    }
+
+    if (!files.length) {
+      throw new Error(`"${command}" needs at least one input file.`)
+    }
+
+    if (values.output && files.length > 1 && command !== 'merge') {
+      throw new Error('--output can only be used with a single input file; use --out-dir instead.')
+    }
+
+    const outputFor = (inputPath: string, suffix: string) => {
+      if (values.output) {
+        return values.output
+      }
+
+      const name = `${path.basename(inputPath).replace(MACRO_EXTENSION_PATTERN, '')}${suffix}`
+      return path.join(values['out-dir'] ?? path.dirname(inputPath), name)
+    }
+
+    const writeOutput = (inputPaths: string[], outputPath: string, data: Uint8Array | string) => {
+      const overwritten = inputPaths.find((inputPath) => path.resolve(inputPath) === path.resolve(outputPath))
+      if (overwritten) {
+        throw new Error(`Refusing to overwrite the input file ${overwritten}.`)
+      }
+
+      io.writeFile(outputPath, data)
+      io.stdout(`${inputPaths.join(' + ')} -> ${outputPath}\n`)
+    }
+
+    const transformEach = (transform: (events: EncodableEvent[]) => EncodableEvent[]) => {
+      files.forEach((filePath) => {
+        const macro = loadMacro(io, filePath)
+        const outputPath = outputFor(filePath, '-edited.rec')
+        writeOutput([filePath], outputPath, encodeMacro({ ...macro, events: transform(macro.events) }, outputPath))
+      })
+    }
+
+    switch (command as CommandName) {
+      case 'info': {
+        files.forEach((filePath) => {
+          const summary = summarizeMacro(loadMacro(io, filePath).events)
+          io.stdout(
+            [
+              filePath,
+              `  events:   ${summary.eventCount}`,
+              `  duration: ${summary.duration} ms`,
+              `  hwnds:    ${summary.hwnds.map(formatHex).join(', ') || 'none'}`,
+              `  unknown:  ${summary.unknownMessages.map(formatHex).join(', ') || 'none'}`,
+              '',
+            ].join('\n'),
+          )
+        })
+        return 0
+      }
+      case 'scale-time': {
+        const factor = parseNumberOption(values.factor, 'factor')
+        if (factor < 0) {
+          throw new Error('--factor must not be negative.')
+        }
+        const options = {
+          minDelay: values['min-delay'] === undefined ? undefined : parseNumberOption(values['min-delay'], 'min-delay'),
+          onlyAbove: values['only-above'] === undefined ? undefined : parseNumberOption(values['only-above'], 'only-above'),
+        }
+        transformEach((events) => scaleDelays(events, factor, options))
+        return 0
+      }
+      case 'clamp-jitter': {
+        const threshold = parseNumberOption(values.threshold, 'threshold')
+        transformEach((events) => clampSmallDelays(events, threshold))
+        return 0
+      }
+      case 'strip-moves': {
+        transformEach((events) => stripMouseMoves(events))
+        return 0
+      }
+      case 'merge': {
+        if (files.length !== 2) {
+          throw new Error('"merge" needs exactly two input files.')
+        }
+        const gap = values.gap === undefined ? 0 : parseNumberOption(values.gap, 'gap')
+        const [first, second] = files.map((filePath) => loadMacro(io, filePath))
+        const outputPath = outputFor(files[0], '-merged.rec')
+        writeOutput(
+          files,
+          outputPath,
+          encodeMacro({ baseTime: first.baseTime, events: concatTimelines(first.events, second.events, gap) }, outputPath),
+        )
+        return 0
+      }
+      case 'convert': {
+        const format = values.to
+        if (!format || !CONVERT_FORMATS.includes(format)) {
+          throw new Error(`--to expects one of: ${CONVERT_FORMATS.join(', ')}.`)
+        }
+
+        files.forEach((filePath) => {
+          const macro = loadMacro(io, filePath)
+          let output: string
+          let extension: string
+
+          if (format === 'text') {
+            output = encodeTextMacro(macro.events, { baseTime: macro.baseTime })
+            extension = 'txt'
+          } else if (format === 'json') {
+            output = `${JSON.stringify(macro, null, 2)}\n`
+            extension = 'json'
+          } else {
+            const exporter = SCRIPT_EXPORTERS[format as ScriptFormat]
+            output = exporter.render(macro.events)
+            extension = exporter.extension
+          }
+
+          writeOutput([filePath], outputFor(filePath, `.${extension}`), output)
+        })
+        return 0
+      }
+    }
+  } catch (err) {
+    io.stderr(`tinytask-edit: ${err instanceof Error ? err.message : String(err)}\n`)
+    return 1
+  }
+}
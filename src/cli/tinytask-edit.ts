@@ -0,0 +1,16 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+
+import { runCli } from './runCli'
+
+const exitCode = runCli(process.argv.slice(2), {
+  readFile: (filePath) => readFileSync(filePath),
+  writeFile: (filePath, data) => {
+    mkdirSync(path.dirname(filePath), { recursive: true })
+    writeFileSync(filePath, data)
+  },
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+})
+
+process.exitCode = exitCode
@@ -0,0 +1,223 @@
+import { memo, useState } from 'react'
+
+import type { PreviewBounds } from '../hooks/usePreview'
+import type { OperationScope } from '../hooks/useRecEditor'
+import type { Rect } from '../lib/transforms'
+
+type CoordinateMode = 'resolution' | 'offset' | 'rect'
+
+export interface CoordinateTransformPanelStrings {
+  title: string
+  modeLabel: string
+  modes: Record<CoordinateMode, string>
+  sourceBounds: (minX: number, minY: number, maxX: number, maxY: number) => string
+  noMouseEvents: string
+  sourceResolutionLabel: string
+  targetResolutionLabel: string
+  resolutionPlaceholder: string
+  offsetXLabel: string
+  offsetYLabel: string
+  sourceRectLabel: string
+  targetRectLabel: string
+  rectPlaceholder: string
+  useBounds: string
+  scopeLabel: string
+  scopeOptions: Record<OperationScope, string>
+  button: string
+}
+
+interface CoordinateTransformPanelProps {
+  bounds?: PreviewBounds
+  hasSelection: boolean
+  onApply: (from: Rect, to: Rect, scope: OperationScope) => void
+  strings: CoordinateTransformPanelStrings
+}
+
+const parseResolution = (value: string): Rect | null => {
+  const match = /^\s*(\d+)\s*[x×,\s]\s*(\d+)\s*$/i.exec(value)
+  if (!match) {
+    return null
+  }
+
+  return { x: 0, y: 0, width: Number(match[1]), height: Number(match[2]) }
+}
+
+const parseRect = (value: string): Rect | null => {
+  const parts = value.split(/[\s,]+/).filter(Boolean).map(Number)
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    return null
+  }
+
+  const [x, y, width, height] = parts
+  return { x, y, width, height }
+}
+
+const CoordinateTransformPanelComponent = ({
+  bounds,
+  hasSelection,
+  onApply,
+  strings,
+}: CoordinateTransformPanelProps) => {
+  const [mode, setMode] = useState<CoordinateMode>('resolution')
+  const [scope, setScope] = useState<OperationScope>('selection')
+  const [sourceResolution, setSourceResolution] = useState('1920x1080')
+  const [targetResolution, setTargetResolution] = useState('2560x1440')
+  const [offsetX, setOffsetX] = useState('0')
+  const [offsetY, setOffsetY] = useState('0')
+  const [sourceRect, setSourceRect] = useState('')
+  const [targetRect, setTargetRect] = useState('')
+
+  let mapping: { from: Rect; to: Rect } | null = null
+
+  if (mode === 'resolution') {
+    const from = parseResolution(sourceResolution)
+    const to = parseResolution(targetResolution)
+    mapping = from && to ? { from, to } : null
+  } else if (mode === 'offset') {
+    const dx = Number(offsetX)
+    const dy = Number(offsetY)
+    mapping =
+      Number.isFinite(dx) && Number.isFinite(dy)
+        ? { from: { x: 0, y: 0, width: 1, height: 1 }, to: { x: dx, y: dy, width: 1, height: 1 } }
+        : null
+  } else {
+    const from = parseRect(sourceRect)
+    const to = parseRect(targetRect)
+    mapping = from && to ? { from, to } : null
+  }
+
+  const boundsRect = bounds
+    ? `${bounds.minX}, ${bounds.minY}, ${bounds.maxX - bounds.minX}, ${bounds.maxY - bounds.minY}`
+    : ''
+
+  return (
+    <div className="selection-actions tool-row">
+      <span className="group-title">{strings.title}</span>
+      <span className="estimate">
+        {bounds ? strings.sourceBounds(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY) : strings.noMouseEvents}
+      </span>
+      <div className="action-group">
+        <label htmlFor="coordinate-mode-select">{strings.modeLabel}</label>
+        <select
+          id="coordinate-mode-select"
+          value={mode}
+          onChange={(event) => setMode(event.target.value as CoordinateMode)}
+        >
+          {(Object.keys(strings.modes) as CoordinateMode[]).map((entry) => (
+            <option key={entry} value={entry}>
+              {strings.modes[entry]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {mode === 'resolution' && (
+        <>
+          <div className="action-group">
+            <label htmlFor="coordinate-source-resolution">{strings.sourceResolutionLabel}</label>
+            <input
+              id="coordinate-source-resolution"
+              type="text"
+              value={sourceResolution}
+              onChange={(event) => setSourceResolution(event.target.value)}
+              placeholder={strings.resolutionPlaceholder}
+            />
+          </div>
+          <div className="action-group">
+            <label htmlFor="coordinate-target-resolution">{strings.targetResolutionLabel}</label>
+            <input
+              id="coordinate-target-resolution"
+              type="text"
+              value={targetResolution}
+              onChange={(event) => setTargetResolution(event.target.value)}
+              placeholder={strings.resolutionPlaceholder}
+            />
+          </div>
+        </>
+      )}
+
+      {mode === 'offset' && (
+        <>
+          <div className="action-group">
+            <label htmlFor="coordinate-offset-x">{strings.offsetXLabel}</label>
+            <input
+              id="coordinate-offset-x"
+              type="number"
+              value={offsetX}
+              onChange={(event) => setOffsetX(event.target.value)}
+            />
+          </div>
+          <div className="action-group">
+            <label htmlFor="coordinate-offset-y">{strings.offsetYLabel}</label>
+            <input
+              id="coordinate-offset-y"
+              type="number"
+              value={offsetY}
+              onChange={(event) => setOffsetY(event.target.value)}
+            />
+          </div>
+        </>
+      )}
+
+      {mode === 'rect' && (
+        <>
+          <div className="action-group">
+            <label htmlFor="coordinate-source-rect">{strings.sourceRectLabel}</label>
+            <div className="action-controls">
+              <input
+                id="coordinate-source-rect"
+                type="text"
+                value={sourceRect}
+                onChange={(event) => setSourceRect(event.target.value)}
+                placeholder={boundsRect || strings.rectPlaceholder}
+              />
+              <button type="button" onClick={() => setSourceRect(boundsRect)} disabled={!bounds}>
+                {strings.useBounds}
+              </button>
+            </div>
+          </div>
+          <div className="action-group">
+            <label htmlFor="coordinate-target-rect">{strings.targetRectLabel}</label>
+            <input
+              id="coordinate-target-rect"
+              type="text"
+              value={targetRect}
+              onChange={(event) => setTargetRect(event.target.value)}
+              placeholder={strings.rectPlaceholder}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="action-group">
+        <label htmlFor="coordinate-scope-select">{strings.scopeLabel}</label>
+        <select
+          id="coordinate-scope-select"
+          value={scope}
+          onChange={(event) => setScope(event.target.value as OperationScope)}
+        >
+          {(Object.keys(strings.scopeOptions) as OperationScope[]).map((entry) => (
+            <option key={entry} value={entry}>
+              {strings.scopeOptions[entry]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        type="button"
+        className="add-button"
+        disabled={!mapping || (scope === 'selection' && !hasSelection)}
+        onClick={() => {
+          if (mapping) {
+            onApply(mapping.from, mapping.to, scope)
+          }
+        }}
+      >
+        {strings.button}
+      </button>
+    </div>
+  )
+}
+
+export const CoordinateTransformPanel = memo(CoordinateTransformPanelComponent)
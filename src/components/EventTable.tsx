@@ -1,16 +1,34 @@
 import { forwardRef, memo, useEffect, useImperativeHandle, useRef } from 'react'
 import { useVirtualizer } from '@tanstack/react-virtual'
 
-import type { EditorEvent } from '../hooks/useRecEditor'
-import { MESSAGE_LABELS } from '../lib/messageCatalog'
-import { describeVirtualKey } from '../lib/keyCodes'
+import type { EditorEvent, EditorEventPatch, PlacedMarker } from '../hooks/useRecEditor'
+import {
+  WHEEL_DELTA,
+  decodeMousePoint,
+  decodeWheelDelta,
+  decodeWheelNotches,
+  encodeWheelDelta,
+  toUnsigned32,
+} from '../lib/eventParams'
+import {
+  KEY_MESSAGES,
+  MESSAGE_LABELS,
+  MOUSE_BUTTON_MESSAGES,
+  MOUSE_MESSAGES,
+  WM_MOUSEMOVE,
+  WM_MOUSEWHEEL,
+  isKeyDownMessage,
+} from '../lib/messageCatalog'
+import { VIRTUAL_KEY_CODES, describeVirtualKey } from '../lib/keyCodes'
 
 const formatHex = (value: number) => `0x${value.toString(16).toUpperCase()}`
 
 const formatMessage = (message: number) =>
   `${MESSAGE_LABELS[message] ?? 'UNKNOWN'} (${formatHex(message)})`
 
-const formatParam = (value: number) => `${value} (${formatHex(value)})`
+const MESSAGE_CODES = Object.keys(MESSAGE_LABELS)
+  .map(Number)
+  .sort((a, b) => a - b)
 
 const formatTimestamp = (milliseconds: number) => {
   const total = Math.max(0, Math.round(milliseconds))
@@ -25,8 +43,6 @@ const formatTimestamp = (milliseconds: number) => {
 }
 
 const ESTIMATED_ROW_HEIGHT = 56
-const KEY_MESSAGES = new Set([0x0100, 0x0101, 0x0104, 0x0105])
-const MOUSE_BUTTON_MESSAGES = new Set([0x0201, 0x0202, 0x0204, 0x0205, 0x0207, 0x0208])
 
 export interface EventTableStrings {
   columns: {
@@ -34,9 +50,16 @@ export interface EventTableStrings {
     paramL: string
     paramH: string
     delay: string
+    hwnd: string
     timestamp: string
+    comment: string
     actions: string
   }
+  commentPlaceholder: string
+  coordinateX: string
+  coordinateY: string
+  wheelDelta: string
+  editFieldAria: (field: string, index: number) => string
   selectAllLabel: string
   clearSelectionLabel: string
   selectEventAria: (index: number) => string
@@ -46,33 +69,54 @@ export interface EventTableStrings {
   keyReleaseDetail: (keyName: string) => string
   moveDetail: (x: number, y: number) => string
   mouseActionDetail: (message: number, x: number, y: number) => string
-  wheelDetail: (value: number) => string
+  wheelDetail: (delta: number, notches: number) => string
   fallbackDetail: (paramL: number, paramH: number) => string
+  /** Value a pending find & replace would write into the cell. */
+  previewChange: (value: string) => string
 }
 
 const getEventDetail = (event: EditorEvent, strings: EventTableStrings): string => {
   if (KEY_MESSAGES.has(event.message)) {
     const keyName = describeVirtualKey(event.paramL)
-    return event.message === 0x0100 || event.message === 0x0104
+    return isKeyDownMessage(event.message)
       ? strings.keyPressDetail(keyName)
       : strings.keyReleaseDetail(keyName)
   }
 
-  if (event.message === 0x0200) {
-    return strings.moveDetail(event.paramL, event.paramH)
+  if (event.message === WM_MOUSEMOVE) {
+    const { x, y } = decodeMousePoint(event)
+    return strings.moveDetail(x, y)
   }
 
   if (MOUSE_BUTTON_MESSAGES.has(event.message)) {
-    return strings.mouseActionDetail(event.message, event.paramL, event.paramH)
+    const { x, y } = decodeMousePoint(event)
+    return strings.mouseActionDetail(event.message, x, y)
   }
 
-  if (event.message === 0x020a) {
-    return strings.wheelDetail(event.paramH)
+  if (event.message === WM_MOUSEWHEEL) {
+    return strings.wheelDetail(decodeWheelDelta(event.paramH), decodeWheelNotches(event.paramH))
   }
 
   return strings.fallbackDetail(event.paramL, event.paramH)
 }
 
+/** Markers that start on row `index`, and the color of the innermost section covering it. */
+const markersAt = (markers: PlacedMarker[], index: number) => {
+  const starting: PlacedMarker[] = []
+  let sectionColor: string | undefined
+
+  markers.forEach((marker) => {
+    if (marker.index === index) {
+      starting.push(marker)
+    }
+    if (marker.endIndex > marker.index && marker.index <= index && index <= marker.endIndex) {
+      sectionColor = marker.color
+    }
+  })
+
+  return { starting, sectionColor }
+}
+
 interface EventTableProps {
   events: EditorEvent[]
   sourceIndexes?: number[]
@@ -82,11 +126,18 @@ interface EventTableProps {
   onSelectAll: () => void
   onClearSelection: () => void
   onDelayChange: (id: string, value: number) => void
+  onEventChange: (id: string, patch: EditorEventPatch) => void
   onDelete: (id: string) => void
+  /** Called when a note field loses focus; an empty string removes the note. */
+  onCommentChange: (id: string, comment: string) => void
   strings: EventTableStrings
   activeEventId?: string
   delaySortOrder: 'none' | 'asc' | 'desc'
   onToggleDelaySort: () => void
+  /** Bookmarks are shown as badges on their rows; sections tint the rows they cover. */
+  markers?: PlacedMarker[]
+  /** Pending find & replace results by event id; those rows are highlighted with their new values. */
+  previewChanges?: Map<string, EditorEvent>
 }
 
 export interface EventTableHandle {
@@ -103,11 +154,15 @@ const EventTableComponent = forwardRef<EventTableHandle, EventTableProps>(
     onSelectAll,
     onClearSelection,
     onDelayChange,
+    onEventChange,
     onDelete,
+    onCommentChange,
     strings,
     activeEventId,
     delaySortOrder,
     onToggleDelaySort,
+    markers,
+    previewChanges,
   },
   ref,
 ) => {
@@ -184,7 +239,9 @@ const EventTableComponent = forwardRef<EventTableHandle, EventTableProps>(
               </span>
             </button>
           </span>
+          <span role="columnheader">{strings.columns.hwnd}</span>
           <span role="columnheader">{strings.columns.timestamp}</span>
+          <span role="columnheader">{strings.columns.comment}</span>
           <span role="columnheader">{strings.columns.actions}</span>
         </div>
         <div className="event-table-body" ref={parentRef} role="rowgroup">
@@ -206,13 +263,30 @@ const EventTableComponent = forwardRef<EventTableHandle, EventTableProps>(
               const timestamp = formatTimestamp(entry.time)
               const detail = getEventDetail(entry, strings)
               const messageLabel = formatMessage(entry.message)
+              const rowNumber = originalIndex + 1
+              const rowMarkers = markers?.length ? markersAt(markers, originalIndex) : undefined
+              const preview = previewChanges?.get(entry.id)
+              const previewDetail = preview ? getEventDetail(preview, strings) : undefined
+              const isKeyEvent = KEY_MESSAGES.has(entry.message)
+              const isMousePosition = MOUSE_MESSAGES.has(entry.message)
+              const isWheel = entry.message === WM_MOUSEWHEEL
+              const virtualKey = entry.paramL & 0xff
+              const point = decodeMousePoint(entry)
+              const paramLLabel = isMousePosition ? strings.coordinateX : strings.columns.paramL
+              const paramHLabel = isMousePosition
+                ? strings.coordinateY
+                : isWheel
+                  ? strings.wheelDelta
+                  : strings.columns.paramH
 
               return (
                 <div
                   key={entry.id}
                   data-index={virtualRow.index}
                   role="row"
-                  className={`event-table-row ${parityClass} ${isSelected ? 'selected' : ''} ${isActive ? 'active' : ''}`.trim()}
+                  className={`event-table-row ${parityClass} ${isSelected ? 'selected' : ''} ${isActive ? 'active' : ''} ${
+                    rowMarkers?.sectionColor ? 'in-section' : ''
+                  } ${preview ? 'previewing' : ''}`.trim()}
                   ref={virtualizer.measureElement}
                   style={{
                     transform: `translateY(${virtualRow.start}px)`,
@@ -220,6 +294,7 @@ const EventTableComponent = forwardRef<EventTableHandle, EventTableProps>(
                     top: 0,
                     left: 0,
                     right: 0,
+                    ['--section-color' as string]: rowMarkers?.sectionColor,
                   }}
                   aria-selected={isSelected}
                   aria-current={isActive ? 'true' : undefined}
@@ -228,7 +303,7 @@ const EventTableComponent = forwardRef<EventTableHandle, EventTableProps>(
                     <input
                       type="checkbox"
                       checked={isSelected}
-                      aria-label={strings.selectEventAria(originalIndex + 1)}
+                      aria-label={strings.selectEventAria(rowNumber)}
                       onChange={(event) => {
                         const nativeEvent = event.nativeEvent as MouseEvent
                         onToggleSelection(entry.id, originalIndex, {
@@ -239,17 +314,86 @@ const EventTableComponent = forwardRef<EventTableHandle, EventTableProps>(
                     />
                   </span>
                   <span className="cell index" role="cell">
-                    {originalIndex + 1}
+                    {rowNumber}
+                    {rowMarkers?.starting.map((marker) => (
+                      <span
+                        key={marker.id}
+                        className="row-marker"
+                        style={{ background: marker.color }}
+                        title={marker.name}
+                      >
+                        {marker.name}
+                      </span>
+                    ))}
                   </span>
                   <span className="cell message" role="cell" title={detail}>
-                    <span className="message-title">{messageLabel}</span>
+                    <select
+                      className="message-select"
+                      value={entry.message}
+                      aria-label={strings.editFieldAria(strings.columns.message, rowNumber)}
+                      onChange={(evt) => onEventChange(entry.id, { message: Number(evt.currentTarget.value) })}
+                    >
+                      {!MESSAGE_LABELS[entry.message] && (
+                        <option value={entry.message}>{messageLabel}</option>
+                      )}
+                      {MESSAGE_CODES.map((code) => (
+                        <option key={code} value={code}>
+                          {formatMessage(code)}
+                        </option>
+                      ))}
+                    </select>
                     <span className="message-detail">{detail}</span>
+                    {previewDetail !== undefined && previewDetail !== detail && (
+                      <span className="preview-change">{strings.previewChange(previewDetail)}</span>
+                    )}
                   </span>
-                  <span className="cell" role="cell">
-                    {formatParam(entry.paramL)}
+                  <span className="cell param" role="cell">
+                    {isKeyEvent ? (
+                      <select
+                        className="key-select"
+                        value={virtualKey}
+                        aria-label={strings.editFieldAria(strings.columns.paramL, rowNumber)}
+                        onChange={(evt) => onEventChange(entry.id, { paramL: Number(evt.currentTarget.value) })}
+                      >
+                        {!VIRTUAL_KEY_CODES.includes(virtualKey) && (
+                          <option value={virtualKey}>{describeVirtualKey(virtualKey)}</option>
+                        )}
+                        {VIRTUAL_KEY_CODES.map((code) => (
+                          <option key={code} value={code}>
+                            {describeVirtualKey(code)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="number"
+                        min={isMousePosition ? undefined : 0}
+                        value={isMousePosition ? point.x : entry.paramL}
+                        aria-label={strings.editFieldAria(paramLLabel, rowNumber)}
+                        onChange={(evt) =>
+                          onEventChange(entry.id, { paramL: toUnsigned32(Number(evt.currentTarget.value)) })
+                        }
+                      />
+                    )}
+                    <span className="param-hint">{isMousePosition ? strings.coordinateX : formatHex(entry.paramL)}</span>
                   </span>
-                  <span className="cell" role="cell">
-                    {formatParam(entry.paramH)}
+                  <span className="cell param" role="cell">
+                    <input
+                      type="number"
+                      min={isMousePosition || isWheel ? undefined : 0}
+                      step={isWheel ? WHEEL_DELTA : undefined}
+                      value={isMousePosition ? point.y : isWheel ? decodeWheelDelta(entry.paramH) : entry.paramH}
+                      aria-label={strings.editFieldAria(paramHLabel, rowNumber)}
+                      onChange={(evt) => {
+                        const value = Number(evt.currentTarget.value)
+                        onEventChange(entry.id, {
+                          paramH: isWheel ? encodeWheelDelta(value, entry.paramH) : toUnsigned32(value),
+                        })
+                      }}
+                    />
+                    <span className="param-hint">
+                      {isMousePosition ? strings.coordinateY : isWheel ? strings.wheelDelta : formatHex(entry.paramH)}
+                    </span>
                   </span>
                   <span className="cell delay" role="cell">
                     <input
@@ -260,6 +404,19 @@ const EventTableComponent = forwardRef<EventTableHandle, EventTableProps>(
                         onDelayChange(entry.id, Number(evt.currentTarget.value))
                       }
                     />
+                    {preview && preview.delay !== entry.delay && (
+                      <span className="preview-change">{strings.previewChange(String(preview.delay))}</span>
+                    )}
+                  </span>
+                  <span className="cell param" role="cell">
+                    <input
+                      type="number"
+                      min={0}
+                      value={entry.hwnd}
+                      aria-label={strings.editFieldAria(strings.columns.hwnd, rowNumber)}
+                      onChange={(evt) => onEventChange(entry.id, { hwnd: Number(evt.currentTarget.value) })}
+                    />
+                    <span className="param-hint">{formatHex(entry.hwnd)}</span>
                   </span>
                   <span className="cell" role="cell">
                     <span className="timestamp">
@@ -267,6 +424,23 @@ const EventTableComponent = forwardRef<EventTableHandle, EventTableProps>(
                       <span className="ms">{strings.timestampMs(entry.time)}</span>
                     </span>
                   </span>
+                  <span className="cell comment" role="cell">
+                    <input
+                      // Remount when the note changes elsewhere (undo, paste) so the field shows it.
+                      key={entry.comment ?? ''}
+                      type="text"
+                      defaultValue={entry.comment ?? ''}
+                      placeholder={strings.commentPlaceholder}
+                      title={entry.comment}
+                      aria-label={strings.editFieldAria(strings.columns.comment, rowNumber)}
+                      onBlur={(evt) => onCommentChange(entry.id, evt.currentTarget.value.trim())}
+                      onKeyDown={(evt) => {
+                        if (evt.key === 'Enter') {
+                          evt.currentTarget.blur()
+                        }
+                      }}
+                    />
+                  </span>
                   <span className="cell actions" role="cell">
                     <button type="button" onClick={() => onDelete(entry.id)}>
                       {strings.deleteAction}
@@ -0,0 +1,308 @@
+import { memo, useEffect, useMemo, useState } from 'react'
+
+import type { OperationScope } from '../hooks/useRecEditor'
+import { VIRTUAL_KEY_CODES, describeVirtualKey } from '../lib/keyCodes'
+import type { ReplaceRule } from '../lib/transforms'
+
+type ReplaceKind = ReplaceRule['kind']
+type KeyTarget = Extract<ReplaceRule, { kind: 'key' }>['target']
+type PointTarget = Extract<ReplaceRule, { kind: 'point' }>['target']
+
+export interface FindReplacePanelStrings {
+  title: string
+  kindLabel: string
+  kinds: Record<ReplaceKind, string>
+  findKeyLabel: string
+  replaceKeyLabel: string
+  keyTargetLabel: string
+  keyTargets: Record<KeyTarget, string>
+  findPointLabel: string
+  toleranceLabel: string
+  replacePointLabel: string
+  pointTargetLabel: string
+  pointTargets: Record<PointTarget, string>
+  xLabel: string
+  yLabel: string
+  findDelayLabel: string
+  replaceDelayLabel: string
+  scopeLabel: string
+  scopeOptions: Record<OperationScope, string>
+  affected: (count: number) => string
+  invalid: string
+  onlyAffected: string
+  replaced: (count: number) => string
+  button: string
+  close: string
+}
+
+interface FindReplacePanelProps {
+  hasSelection: boolean
+  /** Rows the current rule would change; the table previews them before anything is committed. */
+  affectedCount: number
+  onlyAffected: boolean
+  onOnlyAffectedChange: (value: boolean) => void
+  /** Reports the rule being edited, or `null` while a field is invalid. */
+  onRuleChange: (rule: ReplaceRule | null, scope: OperationScope) => void
+  onReplace: () => void
+  onClose: () => void
+  strings: FindReplacePanelStrings
+}
+
+const parseInteger = (value: string) => {
+  const parsed = Number(value)
+  return value.trim() !== '' && Number.isInteger(parsed) ? parsed : null
+}
+
+const parseNonNegative = (value: string) => {
+  const parsed = parseInteger(value)
+  return parsed !== null && parsed >= 0 ? parsed : null
+}
+
+const FindReplacePanelComponent = ({
+  hasSelection,
+  affectedCount,
+  onlyAffected,
+  onOnlyAffectedChange,
+  onRuleChange,
+  onReplace,
+  onClose,
+  strings,
+}: FindReplacePanelProps) => {
+  const [kind, setKind] = useState<ReplaceKind>('key')
+  const [fromKey, setFromKey] = useState(0x41)
+  const [toKey, setToKey] = useState(0x42)
+  const [keyTarget, setKeyTarget] = useState<KeyTarget>('all')
+  const [fromX, setFromX] = useState('')
+  const [fromY, setFromY] = useState('')
+  const [tolerance, setTolerance] = useState('5')
+  const [toX, setToX] = useState('')
+  const [toY, setToY] = useState('')
+  const [pointTarget, setPointTarget] = useState<PointTarget>('buttons')
+  const [fromDelay, setFromDelay] = useState('16')
+  const [toDelay, setToDelay] = useState('20')
+  const [scope, setScope] = useState<OperationScope>(hasSelection ? 'selection' : 'all')
+  const [replacedCount, setReplacedCount] = useState<number | null>(null)
+
+  const rule = useMemo((): ReplaceRule | null => {
+    switch (kind) {
+      case 'key':
+        return { kind, from: fromKey, to: toKey, target: keyTarget }
+      case 'point': {
+        const values = [
+          parseInteger(fromX),
+          parseInteger(fromY),
+          parseNonNegative(tolerance),
+          parseInteger(toX),
+          parseInteger(toY),
+        ]
+        if (values.some((value) => value === null)) {
+          return null
+        }
+
+        const [x, y, radius, targetX, targetY] = values as number[]
+        return { kind, from: { x, y }, tolerance: radius, to: { x: targetX, y: targetY }, target: pointTarget }
+      }
+      case 'delay': {
+        const from = parseNonNegative(fromDelay)
+        const to = parseNonNegative(toDelay)
+        return from === null || to === null ? null : { kind, from, to }
+      }
+    }
+  }, [kind, fromKey, toKey, keyTarget, fromX, fromY, tolerance, toX, toY, pointTarget, fromDelay, toDelay])
+
+  useEffect(() => {
+    onRuleChange(rule, scope)
+    setReplacedCount(null)
+  }, [rule, scope, onRuleChange])
+
+  const renderKeySelect = (id: string, label: string, value: number, onChange: (value: number) => void) => (
+    <div className="action-group">
+      <label htmlFor={id}>{label}</label>
+      <select id={id} value={value} onChange={(event) => onChange(Number(event.target.value))}>
+        {VIRTUAL_KEY_CODES.map((code) => (
+          <option key={code} value={code}>
+            {describeVirtualKey(code)}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+
+  const renderPointInputs = (
+    id: string,
+    label: string,
+    x: string,
+    y: string,
+    setX: (value: string) => void,
+    setY: (value: string) => void,
+  ) => (
+    <div className="action-group">
+      <label htmlFor={`${id}-x`}>{label}</label>
+      <div className="action-controls">
+        <input
+          id={`${id}-x`}
+          type="number"
+          value={x}
+          placeholder={strings.xLabel}
+          aria-label={`${label} ${strings.xLabel}`}
+          onChange={(event) => setX(event.target.value)}
+        />
+        <input
+          type="number"
+          value={y}
+          placeholder={strings.yLabel}
+          aria-label={`${label} ${strings.yLabel}`}
+          onChange={(event) => setY(event.target.value)}
+        />
+      </div>
+    </div>
+  )
+
+  return (
+    <div
+      className="find-replace-panel selection-actions tool-row"
+      role="dialog"
+      aria-label={strings.title}
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') {
+          onClose()
+        }
+      }}
+    >
+      <span className="group-title">{strings.title}</span>
+      <div className="action-group">
+        <label htmlFor="replace-kind-select">{strings.kindLabel}</label>
+        <select id="replace-kind-select" value={kind} onChange={(event) => setKind(event.target.value as ReplaceKind)}>
+          {(Object.keys(strings.kinds) as ReplaceKind[]).map((entry) => (
+            <option key={entry} value={entry}>
+              {strings.kinds[entry]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {kind === 'key' && (
+        <>
+          {renderKeySelect('replace-from-key', strings.findKeyLabel, fromKey, setFromKey)}
+          {renderKeySelect('replace-to-key', strings.replaceKeyLabel, toKey, setToKey)}
+          <div className="action-group">
+            <label htmlFor="replace-key-target">{strings.keyTargetLabel}</label>
+            <select
+              id="replace-key-target"
+              value={keyTarget}
+              onChange={(event) => setKeyTarget(event.target.value as KeyTarget)}
+            >
+              {(Object.keys(strings.keyTargets) as KeyTarget[]).map((entry) => (
+                <option key={entry} value={entry}>
+                  {strings.keyTargets[entry]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      {kind === 'point' && (
+        <>
+          {renderPointInputs('replace-from-point', strings.findPointLabel, fromX, fromY, setFromX, setFromY)}
+          <div className="action-group">
+            <label htmlFor="replace-tolerance-input">{strings.toleranceLabel}</label>
+            <input
+              id="replace-tolerance-input"
+              type="number"
+              min={0}
+              value={tolerance}
+              onChange={(event) => setTolerance(event.target.value)}
+            />
+          </div>
+          {renderPointInputs('replace-to-point', strings.replacePointLabel, toX, toY, setToX, setToY)}
+          <div className="action-group">
+            <label htmlFor="replace-point-target">{strings.pointTargetLabel}</label>
+            <select
+              id="replace-point-target"
+              value={pointTarget}
+              onChange={(event) => setPointTarget(event.target.value as PointTarget)}
+            >
+              {(Object.keys(strings.pointTargets) as PointTarget[]).map((entry) => (
+                <option key={entry} value={entry}>
+                  {strings.pointTargets[entry]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      {kind === 'delay' && (
+        <>
+          <div className="action-group">
+            <label htmlFor="replace-from-delay">{strings.findDelayLabel}</label>
+            <input
+              id="replace-from-delay"
+              type="number"
+              min={0}
+              value={fromDelay}
+              onChange={(event) => setFromDelay(event.target.value)}
+            />
+          </div>
+          <div className="action-group">
+            <label htmlFor="replace-to-delay">{strings.replaceDelayLabel}</label>
+            <input
+              id="replace-to-delay"
+              type="number"
+              min={0}
+              value={toDelay}
+              onChange={(event) => setToDelay(event.target.value)}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="action-group">
+        <label htmlFor="replace-scope-select">{strings.scopeLabel}</label>
+        <select
+          id="replace-scope-select"
+          value={scope}
+          onChange={(event) => setScope(event.target.value as OperationScope)}
+        >
+          {(Object.keys(strings.scopeOptions) as OperationScope[]).map((entry) => (
+            <option key={entry} value={entry}>
+              {strings.scopeOptions[entry]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <span className="estimate">
+        {replacedCount !== null
+          ? strings.replaced(replacedCount)
+          : rule
+            ? strings.affected(affectedCount)
+            : strings.invalid}
+      </span>
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={onlyAffected}
+          onChange={(event) => onOnlyAffectedChange(event.target.checked)}
+        />
+        {strings.onlyAffected}
+      </label>
+      <button
+        type="button"
+        className="add-button"
+        disabled={!rule || !affectedCount}
+        onClick={() => {
+          onReplace()
+          setReplacedCount(affectedCount)
+        }}
+      >
+        {strings.button}
+      </button>
+      <button type="button" onClick={onClose}>
+        {strings.close}
+      </button>
+    </div>
+  )
+}
+
+export const FindReplacePanel = memo(FindReplacePanelComponent)
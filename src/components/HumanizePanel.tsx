@@ -0,0 +1,134 @@
+import { memo, useState } from 'react'
+
+import type { OperationScope } from '../hooks/useRecEditor'
+import { createRandomSeed } from '../lib/seededRandom'
+import type { HumanizeOptions } from '../lib/transforms'
+
+type DelayUnit = NonNullable<HumanizeOptions['delayUnit']>
+
+export interface HumanizePanelStrings {
+  title: string
+  delayJitterLabel: string
+  delayUnits: Record<DelayUnit, string>
+  coordinateJitterLabel: string
+  seedLabel: string
+  newSeed: string
+  scopeLabel: string
+  scopeOptions: Record<OperationScope, string>
+  button: string
+  appliedSeed: (seed: number) => string
+}
+
+interface HumanizePanelProps {
+  hasSelection: boolean
+  onApply: (options: HumanizeOptions, scope: OperationScope) => void
+  strings: HumanizePanelStrings
+}
+
+const parseNonNegative = (value: string) => {
+  const parsed = value.trim() === '' ? 0 : Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+const HumanizePanelComponent = ({ hasSelection, onApply, strings }: HumanizePanelProps) => {
+  const [delayJitter, setDelayJitter] = useState('10')
+  const [delayUnit, setDelayUnit] = useState<DelayUnit>('percent')
+  const [coordinateJitter, setCoordinateJitter] = useState('2')
+  const [seed, setSeed] = useState(() => String(createRandomSeed()))
+  const [scope, setScope] = useState<OperationScope>('selection')
+  const [appliedSeed, setAppliedSeed] = useState<number | null>(null)
+
+  const parsedDelay = parseNonNegative(delayJitter)
+  const parsedCoordinate = parseNonNegative(coordinateJitter)
+  const parsedSeed = /^\d+$/.test(seed.trim()) ? Number(seed.trim()) >>> 0 : null
+  const isValid = parsedDelay !== null && parsedCoordinate !== null && parsedSeed !== null
+
+  return (
+    <div className="selection-actions tool-row">
+      <span className="group-title">{strings.title}</span>
+      <div className="action-group">
+        <label htmlFor="humanize-delay-input">{strings.delayJitterLabel}</label>
+        <div className="action-controls">
+          <input
+            id="humanize-delay-input"
+            type="number"
+            min={0}
+            value={delayJitter}
+            onChange={(event) => setDelayJitter(event.target.value)}
+          />
+          <select
+            value={delayUnit}
+            aria-label={strings.delayJitterLabel}
+            onChange={(event) => setDelayUnit(event.target.value as DelayUnit)}
+          >
+            {(Object.keys(strings.delayUnits) as DelayUnit[]).map((unit) => (
+              <option key={unit} value={unit}>
+                {strings.delayUnits[unit]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="action-group">
+        <label htmlFor="humanize-coordinate-input">{strings.coordinateJitterLabel}</label>
+        <input
+          id="humanize-coordinate-input"
+          type="number"
+          min={0}
+          value={coordinateJitter}
+          onChange={(event) => setCoordinateJitter(event.target.value)}
+        />
+      </div>
+      <div className="action-group">
+        <label htmlFor="humanize-seed-input">{strings.seedLabel}</label>
+        <div className="action-controls">
+          <input
+            id="humanize-seed-input"
+            type="text"
+            inputMode="numeric"
+            value={seed}
+            onChange={(event) => setSeed(event.target.value)}
+          />
+          <button type="button" onClick={() => setSeed(String(createRandomSeed()))}>
+            {strings.newSeed}
+          </button>
+        </div>
+      </div>
+      <div className="action-group">
+        <label htmlFor="humanize-scope-select">{strings.scopeLabel}</label>
+        <select
+          id="humanize-scope-select"
+          value={scope}
+          onChange={(event) => setScope(event.target.value as OperationScope)}
+        >
+          {(Object.keys(strings.scopeOptions) as OperationScope[]).map((entry) => (
+            <option key={entry} value={entry}>
+              {strings.scopeOptions[entry]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {appliedSeed !== null && <span className="estimate">{strings.appliedSeed(appliedSeed)}</span>}
+      <button
+        type="button"
+        className="add-button"
+        disabled={!isValid || (scope === 'selection' && !hasSelection)}
+        onClick={() => {
+          if (!isValid) {
+            return
+          }
+
+          onApply(
+            { seed: parsedSeed, delayJitter: parsedDelay, delayUnit, coordinateJitter: parsedCoordinate },
+            scope,
+          )
+          setAppliedSeed(parsedSeed)
+        }}
+      >
+        {strings.button}
+      </button>
+    </div>
+  )
+}
+
+export const HumanizePanel = memo(HumanizePanelComponent)
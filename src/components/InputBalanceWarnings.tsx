@@ -0,0 +1,75 @@
+import { memo } from 'react'
+
+import type { EditorEvent } from '../hooks/useRecEditor'
+import type { InputBalanceIssue, ReleasePlacement, TrackedInput } from '../lib/inputBalance'
+import { describeVirtualKey } from '../lib/keyCodes'
+import type { MouseButton } from '../lib/messageCatalog'
+
+export interface InputBalanceWarningsStrings {
+  title: (count: number) => string
+  buttonNames: Record<MouseButton, string>
+  unreleased: (input: string, row: number) => string
+  orphanRelease: (input: string, row: number) => string
+  releaseAtEnd: string
+  releaseAtCut: (row: number) => string
+  remove: string
+  releaseAllAtEnd: string
+}
+
+interface InputBalanceWarningsProps {
+  events: EditorEvent[]
+  issues: InputBalanceIssue[]
+  onRelease: (placement: ReleasePlacement, pressIds?: string[]) => void
+  onRemove: (id: string) => void
+  strings: InputBalanceWarningsStrings
+}
+
+const InputBalanceWarningsComponent = ({ events, issues, onRelease, onRemove, strings }: InputBalanceWarningsProps) => {
+  const describeInput = (input: TrackedInput) =>
+    input.kind === 'key' ? describeVirtualKey(input.code) : strings.buttonNames[input.button]
+
+  const unreleasedCount = issues.filter((issue) => issue.kind === 'unreleased').length
+
+  return (
+    <div className="status warning input-balance">
+      <div className="input-balance-header">
+        <span>{strings.title(issues.length)}</span>
+        {unreleasedCount > 1 && (
+          <button type="button" onClick={() => onRelease('end')}>
+            {strings.releaseAllAtEnd}
+          </button>
+        )}
+      </div>
+      <ul>
+        {issues.map((issue) => {
+          if (issue.kind === 'orphanRelease') {
+            const release = events[issue.releaseIndex]
+            return (
+              <li key={release.id}>
+                <span>{strings.orphanRelease(describeInput(issue.input), issue.releaseIndex + 1)}</span>
+                <button type="button" onClick={() => onRemove(release.id)}>
+                  {strings.remove}
+                </button>
+              </li>
+            )
+          }
+
+          const press = events[issue.pressIndex]
+          return (
+            <li key={press.id}>
+              <span>{strings.unreleased(describeInput(issue.input), issue.pressIndex + 1)}</span>
+              <button type="button" onClick={() => onRelease('end', [press.id])}>
+                {strings.releaseAtEnd}
+              </button>
+              <button type="button" onClick={() => onRelease('cut', [press.id])}>
+                {strings.releaseAtCut(issue.cutIndex + 1)}
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+export const InputBalanceWarnings = memo(InputBalanceWarningsComponent)
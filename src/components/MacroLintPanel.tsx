@@ -0,0 +1,108 @@
+import { memo, useMemo, useState } from 'react'
+
+import type { EditorEvent } from '../hooks/useRecEditor'
+import {
+  DEFAULT_LINT_CONFIG,
+  LINT_RULES,
+  LINT_RULE_IDS,
+  lintMacro,
+  type LintConfig,
+  type LintRuleId,
+} from '../lib/macroLint'
+
+const MAX_VISIBLE_FINDINGS = 200
+
+export interface MacroLintPanelStrings {
+  title: string
+  rules: Record<
+    LintRuleId,
+    {
+      label: string
+      thresholdLabel?: string
+      finding: (value: number) => string
+    }
+  >
+  row: (row: number) => string
+  summary: (count: number) => string
+  noFindings: string
+  truncated: (shown: number, total: number) => string
+}
+
+interface MacroLintPanelProps {
+  events: EditorEvent[]
+  onFocusIndex: (index: number) => void
+  strings: MacroLintPanelStrings
+}
+
+const MacroLintPanelComponent = ({ events, onFocusIndex, strings }: MacroLintPanelProps) => {
+  const [config, setConfig] = useState<LintConfig>(DEFAULT_LINT_CONFIG)
+
+  const findings = useMemo(() => lintMacro(events, config), [events, config])
+  const visibleFindings = findings.slice(0, MAX_VISIBLE_FINDINGS)
+
+  const updateRule = (rule: LintRuleId, patch: Partial<LintConfig[LintRuleId]>) => {
+    setConfig((previous) => ({ ...previous, [rule]: { ...previous[rule], ...patch } }))
+  }
+
+  return (
+    <section className="tool-panel lint-panel">
+      <span className="group-title">
+        {strings.title} · {strings.summary(findings.length)}
+      </span>
+      <div className="lint-rules">
+        {LINT_RULE_IDS.map((rule) => {
+          const ruleStrings = strings.rules[rule]
+          const hasThreshold = LINT_RULES[rule].defaultThreshold !== undefined
+
+          return (
+            <div key={rule} className="lint-rule">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={config[rule].enabled}
+                  onChange={(event) => updateRule(rule, { enabled: event.target.checked })}
+                />
+                {ruleStrings.label}
+              </label>
+              {hasThreshold && (
+                <input
+                  type="number"
+                  min={0}
+                  value={config[rule].threshold ?? ''}
+                  aria-label={ruleStrings.thresholdLabel ?? ruleStrings.label}
+                  title={ruleStrings.thresholdLabel}
+                  disabled={!config[rule].enabled}
+                  onChange={(event) => {
+                    const value = Number(event.target.value)
+                    if (event.target.value.trim() !== '' && Number.isFinite(value) && value >= 0) {
+                      updateRule(rule, { threshold: value })
+                    }
+                  }}
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+      {findings.length === 0 ? (
+        <span className="panel-note">{strings.noFindings}</span>
+      ) : (
+        <ul className="lint-findings">
+          {visibleFindings.map((finding) => (
+            <li key={`${finding.rule}-${finding.index}`}>
+              <button type="button" onClick={() => onFocusIndex(finding.index)}>
+                <span className="lint-row">{strings.row(finding.index + 1)}</span>
+                <span>{strings.rules[finding.rule].finding(finding.value)}</span>
+              </button>
+            </li>
+          ))}
+          {findings.length > visibleFindings.length && (
+            <li className="panel-note">{strings.truncated(visibleFindings.length, findings.length)}</li>
+          )}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export const MacroLintPanel = memo(MacroLintPanelComponent)
@@ -0,0 +1,146 @@
+import { memo, useState } from 'react'
+
+import type { PlacedMarker } from '../hooks/useRecEditor'
+
+export const MARKER_COLORS = ['#22d3ee', '#8b5cf6', '#22c55e', '#facc15', '#f97316', '#f43f5e']
+
+export interface MarkerSidebarStrings {
+  title: string
+  empty: string
+  nameLabel: string
+  namePlaceholder: string
+  colorLabel: string
+  addMarker: string
+  addSection: string
+  notContiguous: string
+  defaultName: (count: number) => string
+  position: (row: number, endRow: number, timestamp: string) => string
+  renameAria: (name: string) => string
+  remove: string
+}
+
+interface MarkerSidebarProps {
+  markers: PlacedMarker[]
+  /** Contiguous selection a new marker covers, or `null` when the selection is empty or has gaps. */
+  selectedRange: { start: number; end: number } | null
+  timeOf: (index: number) => number
+  formatTimestamp: (milliseconds: number) => string
+  onAdd: (name: string, color: string) => void
+  /** Called when a name field loses focus or Enter is pressed. */
+  onRename: (id: string, name: string) => void
+  onRecolor: (id: string, color: string) => void
+  onRemove: (id: string) => void
+  onJump: (marker: PlacedMarker) => void
+  strings: MarkerSidebarStrings
+}
+
+const MarkerSidebarComponent = ({
+  markers,
+  selectedRange,
+  timeOf,
+  formatTimestamp,
+  onAdd,
+  onRename,
+  onRecolor,
+  onRemove,
+  onJump,
+  strings,
+}: MarkerSidebarProps) => {
+  const [name, setName] = useState('')
+  const [color, setColor] = useState(MARKER_COLORS[0])
+
+  const isSection = selectedRange !== null && selectedRange.end > selectedRange.start
+
+  const handleAdd = () => {
+    onAdd(name.trim() || strings.defaultName(markers.length + 1), color)
+    setName('')
+    setColor(MARKER_COLORS[(MARKER_COLORS.indexOf(color) + 1) % MARKER_COLORS.length])
+  }
+
+  return (
+    <aside className="marker-sidebar" aria-label={strings.title}>
+      <h2>{strings.title}</h2>
+
+      <div className="marker-form">
+        <label htmlFor="marker-name-input">{strings.nameLabel}</label>
+        <input
+          id="marker-name-input"
+          type="text"
+          value={name}
+          placeholder={strings.namePlaceholder}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' && selectedRange) {
+              handleAdd()
+            }
+          }}
+        />
+        <div className="marker-colors" role="radiogroup" aria-label={strings.colorLabel}>
+          {MARKER_COLORS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={option === color}
+              aria-label={option}
+              className={option === color ? 'active' : undefined}
+              style={{ background: option }}
+              onClick={() => setColor(option)}
+            />
+          ))}
+        </div>
+        <button type="button" className="add-button" onClick={handleAdd} disabled={!selectedRange}>
+          {isSection ? strings.addSection : strings.addMarker}
+        </button>
+        {!selectedRange && <span className="panel-note">{strings.notContiguous}</span>}
+      </div>
+
+      {markers.length ? (
+        <ul className="marker-list">
+          {markers.map((marker) => (
+            <li key={marker.id} className="marker-item" style={{ borderColor: marker.color }}>
+              <button type="button" className="marker-jump" onClick={() => onJump(marker)}>
+                {strings.position(marker.index + 1, marker.endIndex + 1, formatTimestamp(timeOf(marker.index)))}
+              </button>
+              <input
+                // Remount when the name changes elsewhere (undo) so the field shows it.
+                key={marker.name}
+                type="text"
+                defaultValue={marker.name}
+                aria-label={strings.renameAria(marker.name)}
+                onBlur={(event) => {
+                  const renamed = event.currentTarget.value.trim()
+                  if (renamed) {
+                    onRename(marker.id, renamed)
+                  } else {
+                    event.currentTarget.value = marker.name
+                  }
+                }}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    event.currentTarget.blur()
+                  }
+                }}
+              />
+              <div className="marker-item-actions">
+                <input
+                  type="color"
+                  value={marker.color}
+                  aria-label={strings.colorLabel}
+                  onChange={(event) => onRecolor(marker.id, event.target.value)}
+                />
+                <button type="button" onClick={() => onRemove(marker.id)}>
+                  {strings.remove}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="panel-note">{strings.empty}</p>
+      )}
+    </aside>
+  )
+}
+
+export const MarkerSidebar = memo(MarkerSidebarComponent)
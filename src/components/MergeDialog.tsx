@@ -0,0 +1,241 @@
+import { memo, useMemo, useState } from 'react'
+
+import type { EditorEvent, IncomingMacro, MergeOptions, MergePosition } from '../hooks/useRecEditor'
+import { buildPreviewData } from '../hooks/usePreview'
+import { KEY_MESSAGES, MOUSE_MESSAGES } from '../lib/messageCatalog'
+import { recomputeTimeline, summarizeMacro } from '../lib/transforms'
+
+const THUMBNAIL_WIDTH = 240
+const THUMBNAIL_HEIGHT = 140
+const THUMBNAIL_PADDING = 10
+
+const MERGE_POSITIONS: MergePosition[] = ['afterSelection', 'beforeSelection', 'end', 'timestamp']
+
+export interface MergeDialogStrings {
+  title: (fileName: string) => string
+  summary: (events: number, duration: string, mouse: number, keys: number, windows: number) => string
+  noMousePath: string
+  fromLabel: string
+  toLabel: string
+  positionLabel: string
+  positions: Record<MergePosition, string>
+  noSelection: string
+  timestampLabel: string
+  timestampPlaceholder: string
+  timestampInvalid: string
+  gapLabel: string
+  remapHwnd: (hwnd: string) => string
+  confirm: string
+  cancel: string
+}
+
+interface MergeDialogProps {
+  incoming: IncomingMacro
+  hasSelection: boolean
+  /** Window handle merged events are sent to when remapping is enabled. */
+  targetHwnd: number
+  parseTimestamp: (value: string) => number | null
+  formatDuration: (milliseconds: number) => string
+  onConfirm: (events: EditorEvent[], options: MergeOptions) => void
+  onCancel: () => void
+  strings: MergeDialogStrings
+}
+
+const toRow = (value: string, fallback: number, max: number) => {
+  const parsed = Math.floor(Number(value))
+  return Number.isFinite(parsed) && value.trim() !== '' ? Math.max(1, Math.min(parsed, max)) : fallback
+}
+
+const MergeDialogComponent = ({
+  incoming,
+  hasSelection,
+  targetHwnd,
+  parseTimestamp,
+  formatDuration,
+  onConfirm,
+  onCancel,
+  strings,
+}: MergeDialogProps) => {
+  const total = incoming.events.length
+  const [from, setFrom] = useState('1')
+  const [to, setTo] = useState(String(total))
+  const [position, setPosition] = useState<MergePosition>(hasSelection ? 'afterSelection' : 'end')
+  const [timestamp, setTimestamp] = useState('')
+  const [gap, setGap] = useState('0')
+  const [remapHwnd, setRemapHwnd] = useState(false)
+
+  const start = toRow(from, 1, total)
+  const end = Math.max(start, toRow(to, total, total))
+
+  const range = useMemo(
+    () => recomputeTimeline(incoming.events.slice(start - 1, end)),
+    [incoming.events, start, end],
+  )
+
+  const summary = useMemo(() => summarizeMacro(range), [range])
+  const counts = useMemo(
+    () => ({
+      mouse: range.filter((event) => MOUSE_MESSAGES.has(event.message)).length,
+      keys: range.filter((event) => KEY_MESSAGES.has(event.message)).length,
+    }),
+    [range],
+  )
+
+  const thumbnail = useMemo(() => {
+    const { points, bounds } = buildPreviewData(range)
+    if (!points.length) {
+      return ''
+    }
+
+    const spanX = Math.max(bounds.maxX - bounds.minX, 1)
+    const spanY = Math.max(bounds.maxY - bounds.minY, 1)
+    const drawWidth = THUMBNAIL_WIDTH - THUMBNAIL_PADDING * 2
+    const drawHeight = THUMBNAIL_HEIGHT - THUMBNAIL_PADDING * 2
+
+    return points
+      .map((point) => {
+        const x = THUMBNAIL_PADDING + ((point.x - bounds.minX) / spanX) * drawWidth
+        const y = THUMBNAIL_PADDING + ((point.y - bounds.minY) / spanY) * drawHeight
+        return `${x},${y}`
+      })
+      .join(' ')
+  }, [range])
+
+  const parsedGap = gap.trim() === '' ? 0 : Number(gap)
+  const parsedTimestamp = position === 'timestamp' ? parseTimestamp(timestamp) : null
+  const timestampInvalid = position === 'timestamp' && (parsedTimestamp === null || parsedTimestamp < 0)
+  const isValid = Number.isFinite(parsedGap) && parsedGap >= 0 && !timestampInvalid
+
+  return (
+    <div className="dialog-backdrop" role="presentation" onClick={onCancel}>
+      <section
+        className="dialog merge-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-label={strings.title(incoming.fileName)}
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={(event) => {
+          if (event.key === 'Escape') {
+            onCancel()
+          }
+        }}
+      >
+        <h2>{strings.title(incoming.fileName)}</h2>
+        <div className="merge-preview">
+          {thumbnail ? (
+            <svg viewBox={`0 0 ${THUMBNAIL_WIDTH} ${THUMBNAIL_HEIGHT}`} className="merge-thumbnail" aria-hidden="true">
+              <polyline points={thumbnail} className="preview-path" />
+            </svg>
+          ) : (
+            <span className="panel-note">{strings.noMousePath}</span>
+          )}
+          <span className="panel-note">
+            {strings.summary(
+              summary.eventCount,
+              formatDuration(summary.duration),
+              counts.mouse,
+              counts.keys,
+              summary.hwnds.length,
+            )}
+          </span>
+        </div>
+        <div className="tool-row">
+          <div className="action-group">
+            <label htmlFor="merge-from-input">{strings.fromLabel}</label>
+            <input
+              id="merge-from-input"
+              type="number"
+              min={1}
+              max={total}
+              value={from}
+              onChange={(event) => setFrom(event.target.value)}
+            />
+          </div>
+          <div className="action-group">
+            <label htmlFor="merge-to-input">{strings.toLabel}</label>
+            <input
+              id="merge-to-input"
+              type="number"
+              min={1}
+              max={total}
+              value={to}
+              onChange={(event) => setTo(event.target.value)}
+            />
+          </div>
+          <div className="action-group">
+            <label htmlFor="merge-position-select">{strings.positionLabel}</label>
+            <select
+              id="merge-position-select"
+              value={position}
+              onChange={(event) => setPosition(event.target.value as MergePosition)}
+            >
+              {MERGE_POSITIONS.map((option) => (
+                <option
+                  key={option}
+                  value={option}
+                  disabled={!hasSelection && (option === 'afterSelection' || option === 'beforeSelection')}
+                >
+                  {strings.positions[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {position === 'timestamp' && (
+            <div className="action-group">
+              <label htmlFor="merge-timestamp-input">{strings.timestampLabel}</label>
+              <input
+                id="merge-timestamp-input"
+                type="text"
+                placeholder={strings.timestampPlaceholder}
+                value={timestamp}
+                onChange={(event) => setTimestamp(event.target.value)}
+              />
+            </div>
+          )}
+          <div className="action-group">
+            <label htmlFor="merge-gap-input">{strings.gapLabel}</label>
+            <input
+              id="merge-gap-input"
+              type="number"
+              min={0}
+              value={gap}
+              onChange={(event) => setGap(event.target.value)}
+            />
+          </div>
+        </div>
+        <label className="checkbox-label">
+          <input type="checkbox" checked={remapHwnd} onChange={(event) => setRemapHwnd(event.target.checked)} />
+          {strings.remapHwnd(`0x${targetHwnd.toString(16).toUpperCase()}`)}
+        </label>
+        {!hasSelection && <span className="panel-note">{strings.noSelection}</span>}
+        {timestampInvalid && timestamp.trim() !== '' && <span className="panel-note">{strings.timestampInvalid}</span>}
+        <div className="dialog-actions">
+          <button type="button" onClick={onCancel}>
+            {strings.cancel}
+          </button>
+          <button
+            type="button"
+            className="add-button"
+            disabled={!isValid}
+            onClick={() => {
+              if (!isValid) {
+                return
+              }
+
+              onConfirm(range, {
+                position,
+                timestamp: parsedTimestamp ?? undefined,
+                gap: parsedGap,
+                remapHwnd,
+              })
+            }}
+          >
+            {strings.confirm}
+          </button>
+        </div>
+      </section>
+    </div>
+  )
+}
+
+export const MergeDialog = memo(MergeDialogComponent)
@@ -1,13 +1,61 @@
-import { forwardRef, memo, useEffect, useImperativeHandle, useMemo } from 'react'
+import { forwardRef, memo, useEffect, useImperativeHandle, useMemo, useState } from 'react'
 
-import type { EditorEvent } from '../hooks/useRecEditor'
-import { usePreview } from '../hooks/usePreview'
-import { formatMessageLabel } from '../lib/messageCatalog'
+import type { EditorEvent, PlacedMarker } from '../hooks/useRecEditor'
+import { buildPreviewData, usePreview, type PreviewBounds, type PreviewPathPoint } from '../hooks/usePreview'
+import type { MousePoint } from '../lib/eventParams'
+import { isPointInPolygon, isPointInRect } from '../lib/geometry'
+import { MOUSE_BUTTON_ACTIONS, formatMessageLabel } from '../lib/messageCatalog'
 import { describeVirtualKey } from '../lib/keyCodes'
 
 const CANVAS_WIDTH = 360
 const CANVAS_HEIGHT = 260
 const CANVAS_PADDING = 24
+const DRAW_WIDTH = CANVAS_WIDTH - CANVAS_PADDING * 2
+const DRAW_HEIGHT = CANVAS_HEIGHT - CANVAS_PADDING * 2
+/** How close (in canvas pixels) the pointer has to be to grab a path point. */
+const HIT_RADIUS = 8
+/** Minimum pointer travel (canvas pixels) before a lasso gets another vertex. */
+const LASSO_STEP = 3
+/** Selected points beyond this count are not highlighted individually. */
+const MAX_SELECTION_MARKERS = 2000
+/** Screen frame picked points map onto while the macro has no mouse path to scale the canvas by. */
+const SCREEN_BOUNDS: PreviewBounds = { minX: 0, minY: 0, maxX: 1920, maxY: 1080 }
+
+export type PreviewTool = 'move' | 'rectangle' | 'lasso'
+
+const PREVIEW_TOOLS: PreviewTool[] = ['move', 'rectangle', 'lasso']
+
+const boundsSpan = (bounds: PreviewBounds) => ({
+  x: Math.max(bounds.maxX - bounds.minX, 1),
+  y: Math.max(bounds.maxY - bounds.minY, 1),
+})
+
+/** Maps a screen coordinate onto the canvas, fitting `bounds` inside the padded frame. */
+const toCanvasPoint = (point: MousePoint, bounds: PreviewBounds): MousePoint => {
+  const span = boundsSpan(bounds)
+  return {
+    x: CANVAS_PADDING + ((point.x - bounds.minX) / span.x) * DRAW_WIDTH,
+    y: CANVAS_PADDING + ((point.y - bounds.minY) / span.y) * DRAW_HEIGHT,
+  }
+}
+
+/** Inverse of `toCanvasPoint`: the screen coordinate under a canvas position. */
+const fromCanvasPoint = (point: MousePoint, bounds: PreviewBounds): MousePoint => {
+  const span = boundsSpan(bounds)
+  return {
+    x: Math.round(bounds.minX + ((point.x - CANVAS_PADDING) / DRAW_WIDTH) * span.x),
+    y: Math.round(bounds.minY + ((point.y - CANVAS_PADDING) / DRAW_HEIGHT) * span.y),
+  }
+}
+
+/** Pointer position in canvas units, even when CSS scales the SVG. */
+const canvasPositionOf = (event: React.PointerEvent<SVGSVGElement>): MousePoint => {
+  const rect = event.currentTarget.getBoundingClientRect()
+  return {
+    x: ((event.clientX - rect.left) / Math.max(rect.width, 1)) * CANVAS_WIDTH,
+    y: ((event.clientY - rect.top) / Math.max(rect.height, 1)) * CANVAS_HEIGHT,
+  }
+}
 
 const formatTimestamp = (milliseconds: number) => {
   const total = Math.max(0, Math.round(milliseconds))
@@ -27,9 +75,14 @@ export interface PreviewPaneStrings {
   pause: string
   keyboardTimeline: string
   mouseTimeline: string
+  markersTimeline: string
   formatKeyStatusLabel: (message: number, baseLabel: string) => string
   formatKeyTooltip: (message: number, readableKey: string, code: number, baseLabel: string) => string
   formatMouseTooltip: (message: number, x: number, y: number) => string
+  toolsLabel: string
+  tools: Record<PreviewTool, string>
+  selectHint: string
+  pickScreenHint: (width: number, height: number) => string
 }
 
 interface PreviewPaneProps {
@@ -38,6 +91,19 @@ interface PreviewPaneProps {
   focusEventId?: string
   onFocusEvent?: (id: string) => void
   onActiveEventChange?: (id: string | undefined) => void
+  /** Candidate timeline (e.g. a simplified path) drawn over the current one before it is committed. */
+  overlayEvents?: EditorEvent[]
+  /** While set, a click on the canvas reports the screen coordinate under the pointer via `onPickPoint`. */
+  pickMode?: boolean
+  onPickPoint?: (point: MousePoint) => void
+  /** Enables dragging path points and click markers; called once, on release, with the new coordinate. */
+  onMovePoint?: (id: string, point: MousePoint) => void
+  /** Highlighted on the canvas. */
+  selectedIds?: Set<string>
+  /** Enables the rectangle and lasso tools; `extend` is set when Shift or Ctrl was held. */
+  onSelectPoints?: (ids: string[], extend: boolean) => void
+  /** Bookmarks and sections drawn on the timeline under the playback slider. */
+  markers?: PlacedMarker[]
   strings: PreviewPaneStrings
 }
 
@@ -47,7 +113,24 @@ export interface PreviewPaneHandle {
 }
 
 const PreviewPaneComponent = forwardRef<PreviewPaneHandle, PreviewPaneProps>(
-  ({ events, duration, focusEventId, onFocusEvent, onActiveEventChange, strings }, ref) => {
+  (
+    {
+      events,
+      duration,
+      focusEventId,
+      onFocusEvent,
+      onActiveEventChange,
+      overlayEvents,
+      pickMode,
+      onPickPoint,
+      onMovePoint,
+      selectedIds,
+      onSelectPoints,
+      markers,
+      strings,
+    },
+    ref,
+  ) => {
   const {
     pathPoints,
     bounds,
@@ -76,10 +159,16 @@ const PreviewPaneComponent = forwardRef<PreviewPaneHandle, PreviewPaneProps>(
 
     useImperativeHandle(ref, () => ({ togglePlay, pause }), [togglePlay, pause])
 
-  const { scaledPoints, pointer } = useMemo(() => {
+  const overlayPoints = useMemo(
+    () => (overlayEvents ? buildPreviewData(overlayEvents).points : undefined),
+    [overlayEvents],
+  )
+
+  const { scaledPoints, scaledOverlay, pointer } = useMemo(() => {
     if (!pathPoints.length) {
       return {
-        scaledPoints: [] as Array<{ id: string; time: number; x: number; y: number }>,
+        scaledPoints: [] as Array<{ id: string; time: number; x: number; y: number; message: number }>,
+        scaledOverlay: undefined,
         pointer: {
           x: CANVAS_WIDTH / 2,
           y: CANVAS_HEIGHT / 2,
@@ -87,23 +176,15 @@ const PreviewPaneComponent = forwardRef<PreviewPaneHandle, PreviewPaneProps>(
       }
     }
 
-    const spanX = Math.max(bounds.maxX - bounds.minX, 1)
-    const spanY = Math.max(bounds.maxY - bounds.minY, 1)
-    const drawWidth = CANVAS_WIDTH - CANVAS_PADDING * 2
-    const drawHeight = CANVAS_HEIGHT - CANVAS_PADDING * 2
-
-    const scaled = pathPoints.map((point) => {
-      const relativeX = (point.x - bounds.minX) / spanX
-      const relativeY = (point.y - bounds.minY) / spanY
-
-      return {
-        id: point.id,
-        time: point.time,
-        x: CANVAS_PADDING + relativeX * drawWidth,
-        y: CANVAS_PADDING + relativeY * drawHeight,
-      }
+    const scalePoint = (point: PreviewPathPoint) => ({
+      id: point.id,
+      time: point.time,
+      message: point.message,
+      ...toCanvasPoint(point, bounds),
     })
 
+    const scaled = pathPoints.map(scalePoint)
+
     let cursor = scaled[0]
     for (const point of scaled) {
       if (point.time <= currentTime) {
@@ -113,10 +194,129 @@ const PreviewPaneComponent = forwardRef<PreviewPaneHandle, PreviewPaneProps>(
       }
     }
 
-    return { scaledPoints: scaled, pointer: cursor }
-  }, [pathPoints, bounds, currentTime])
+    return { scaledPoints: scaled, scaledOverlay: overlayPoints?.map(scalePoint), pointer: cursor }
+  }, [pathPoints, overlayPoints, bounds, currentTime])
+
+  const clickMarkers = useMemo(
+    () => scaledPoints.filter((point) => MOUSE_BUTTON_ACTIONS[point.message]?.down),
+    [scaledPoints],
+  )
+
+  const selectedMarkers = useMemo(() => {
+    if (!selectedIds?.size) {
+      return []
+    }
+
+    return scaledPoints.filter((point) => selectedIds.has(point.id)).slice(0, MAX_SELECTION_MARKERS)
+  }, [scaledPoints, selectedIds])
+
+  const commentById = useMemo(
+    () => new Map(events.flatMap((event) => (event.comment ? [[event.id, event.comment] as const] : []))),
+    [events],
+  )
+
+  /** Appends the event's note, if any, to a marker tooltip. */
+  const withComment = (id: string, tooltip: string) => {
+    const comment = commentById.get(id)
+    return comment ? `${tooltip} — ${comment}` : tooltip
+  }
+
+  const [tool, setTool] = useState<PreviewTool>('move')
+  const [drag, setDrag] = useState<{ id: string; start: MousePoint; current: MousePoint } | null>(null)
+  const [marquee, setMarquee] = useState<MousePoint[] | null>(null)
+  const activeTool = onSelectPoints ? tool : 'move'
+
+  /** The nearest point within `HIT_RADIUS`, preferring click markers since they are drawn on top. */
+  const findPointAt = (position: MousePoint) => {
+    let best: { id: string; distance: number; isClick: boolean } | undefined
+
+    scaledPoints.forEach((point) => {
+      const distance = Math.hypot(point.x - position.x, point.y - position.y)
+      const isClick = Boolean(MOUSE_BUTTON_ACTIONS[point.message]?.down)
+      if (distance > HIT_RADIUS) {
+        return
+      }
+      if (!best || (isClick && !best.isClick) || (isClick === best.isClick && distance < best.distance)) {
+        best = { id: point.id, distance, isClick }
+      }
+    })
+
+    return best?.id
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const position = canvasPositionOf(event)
+
+    if (pickMode && onPickPoint) {
+      onPickPoint(fromCanvasPoint(position, pathPoints.length ? bounds : SCREEN_BOUNDS))
+      return
+    }
+
+    if (activeTool !== 'move') {
+      event.currentTarget.setPointerCapture(event.pointerId)
+      setMarquee([position, position])
+      return
+    }
+
+    if (!onMovePoint) {
+      return
+    }
+
+    const id = findPointAt(position)
+    if (id) {
+      event.currentTarget.setPointerCapture(event.pointerId)
+      setDrag({ id, start: position, current: position })
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const position = canvasPositionOf(event)
+
+    if (marquee) {
+      const last = marquee[marquee.length - 1]
+      if (activeTool === 'rectangle') {
+        setMarquee([marquee[0], position])
+      } else if (Math.hypot(position.x - last.x, position.y - last.y) >= LASSO_STEP) {
+        setMarquee([...marquee, position])
+      }
+      return
+    }
+
+    if (drag) {
+      setDrag({ ...drag, current: position })
+    }
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (marquee) {
+      const contains =
+        activeTool === 'rectangle'
+          ? (point: MousePoint) => isPointInRect(point, marquee[0], marquee[marquee.length - 1])
+          : (point: MousePoint) => isPointInPolygon(point, marquee)
+      setMarquee(null)
+      onSelectPoints?.(
+        scaledPoints.filter((point) => contains(point)).map((point) => point.id),
+        event.shiftKey || event.ctrlKey || event.metaKey,
+      )
+      return
+    }
+
+    if (!drag) {
+      return
+    }
+
+    const position = canvasPositionOf(event)
+    setDrag(null)
+    if (position.x !== drag.start.x || position.y !== drag.start.y) {
+      onMovePoint?.(drag.id, fromCanvasPoint(position, bounds))
+    }
+  }
 
   const polylinePoints = useMemo(() => scaledPoints.map((point) => `${point.x},${point.y}`).join(' '), [scaledPoints])
+  const overlayPolylinePoints = useMemo(
+    () => scaledOverlay?.map((point) => `${point.x},${point.y}`).join(' '),
+    [scaledOverlay],
+  )
 
   const sliderValue = Math.round(progress * 1000)
 
@@ -132,7 +332,20 @@ const PreviewPaneComponent = forwardRef<PreviewPaneHandle, PreviewPaneProps>(
       </header>
 
       <div className="preview-canvas">
-        <svg width={CANVAS_WIDTH} height={CANVAS_HEIGHT} role="img" aria-label="Mouse path">
+        <svg
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          role="img"
+          aria-label="Mouse path"
+          className={pickMode ? 'picking' : activeTool !== 'move' ? 'selecting' : onMovePoint ? 'editable' : undefined}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => {
+            setDrag(null)
+            setMarquee(null)
+          }}
+        >
           <rect
             x={CANVAS_PADDING / 2}
             y={CANVAS_PADDING / 2}
@@ -144,13 +357,59 @@ const PreviewPaneComponent = forwardRef<PreviewPaneHandle, PreviewPaneProps>(
           />
 
           {scaledPoints.length > 0 && (
-            <polyline points={polylinePoints} className="preview-path" />
+            <polyline points={polylinePoints} className={`preview-path ${overlayPolylinePoints ? 'dimmed' : ''}`.trim()} />
           )}
 
+          {overlayPolylinePoints && <polyline points={overlayPolylinePoints} className="preview-path-overlay" />}
+
+          {selectedMarkers.map((point) => (
+            <circle key={point.id} cx={point.x} cy={point.y} r={2.5} className="preview-selected" />
+          ))}
+
+          {clickMarkers.map((point) => (
+            <circle key={point.id} cx={point.x} cy={point.y} r={4} className="preview-click" />
+          ))}
+
           <circle cx={pointer.x} cy={pointer.y} r={7} className="preview-cursor" />
+
+          {drag && <circle cx={drag.current.x} cy={drag.current.y} r={6} className="preview-drag-handle" />}
+
+          {marquee &&
+            (activeTool === 'rectangle' ? (
+              <rect
+                x={Math.min(marquee[0].x, marquee[marquee.length - 1].x)}
+                y={Math.min(marquee[0].y, marquee[marquee.length - 1].y)}
+                width={Math.abs(marquee[marquee.length - 1].x - marquee[0].x)}
+                height={Math.abs(marquee[marquee.length - 1].y - marquee[0].y)}
+                className="preview-marquee"
+              />
+            ) : (
+              <polygon points={marquee.map((point) => `${point.x},${point.y}`).join(' ')} className="preview-marquee" />
+            ))}
         </svg>
       </div>
 
+      {pickMode && !pathPoints.length && (
+        <p className="panel-note">{strings.pickScreenHint(SCREEN_BOUNDS.maxX, SCREEN_BOUNDS.maxY)}</p>
+      )}
+
+      {onSelectPoints && (
+        <div className="preview-tools" role="group" aria-label={strings.toolsLabel}>
+          {PREVIEW_TOOLS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={option === tool ? 'active' : undefined}
+              aria-pressed={option === tool}
+              onClick={() => setTool(option)}
+            >
+              {strings.tools[option]}
+            </button>
+          ))}
+          {tool !== 'move' && <span className="panel-note">{strings.selectHint}</span>}
+        </div>
+      )}
+
       <div className="preview-controls">
         <button type="button" onClick={togglePlay}>
           {isPlaying ? strings.pause : strings.play}
@@ -171,13 +430,42 @@ const PreviewPaneComponent = forwardRef<PreviewPaneHandle, PreviewPaneProps>(
         </div>
         {previewDuration > 0 && (
           <div className="marker-track">
+            {markers && markers.length > 0 && (
+              <div className="marker-layer bookmark-layer" aria-label={strings.markersTimeline}>
+                {markers.map((marker) => {
+                  const start = events[marker.index]?.time ?? 0
+                  const end = events[marker.endIndex]?.time ?? start
+                  const isSection = marker.endIndex > marker.index
+                  return (
+                    <div
+                      key={marker.id}
+                      className={`marker ${isSection ? 'section-band' : 'bookmark-marker'}`}
+                      style={{
+                        left: `${(start / previewDuration) * 100}%`,
+                        width: isSection ? `${((end - start) / previewDuration) * 100}%` : undefined,
+                        ['--marker-color' as string]: marker.color,
+                      }}
+                      aria-label={marker.name}
+                      data-tooltip={marker.name}
+                      onClick={() => {
+                        onFocusEvent?.(marker.eventId)
+                        focusEvent(marker.eventId)
+                      }}
+                    />
+                  )
+                })}
+              </div>
+            )}
             <div className="marker-layer keyboard-layer" aria-label={strings.keyboardTimeline}>
               {keyEvents.map((entry) => {
                 const position = (entry.time / previewDuration) * 100
                 const readableKey = describeVirtualKey(entry.code)
                 const baseLabel = formatMessageLabel(entry.message)
                 const statusLabel = strings.formatKeyStatusLabel(entry.message, baseLabel)
-                const tooltip = strings.formatKeyTooltip(entry.message, readableKey, entry.code, statusLabel)
+                const tooltip = withComment(
+                  entry.id,
+                  strings.formatKeyTooltip(entry.message, readableKey, entry.code, statusLabel),
+                )
                 return (
                   <div
                     key={entry.id}
@@ -196,7 +484,7 @@ const PreviewPaneComponent = forwardRef<PreviewPaneHandle, PreviewPaneProps>(
             <div className="marker-layer mouse-layer" aria-label={strings.mouseTimeline}>
               {clickEvents.map((entry) => {
                 const position = (entry.time / previewDuration) * 100
-                const tooltip = strings.formatMouseTooltip(entry.message, entry.x, entry.y)
+                const tooltip = withComment(entry.id, strings.formatMouseTooltip(entry.message, entry.x, entry.y))
                 return (
                   <div
                     key={entry.id}
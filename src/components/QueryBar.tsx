@@ -0,0 +1,118 @@
+import { memo, useEffect, useState } from 'react'
+
+const SAVED_QUERIES_KEY = 'tinytask-editor:saved-queries'
+
+const loadSavedQueries = (): string[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SAVED_QUERIES_KEY) ?? '[]')
+    return Array.isArray(stored) ? stored.filter((entry): entry is string => typeof entry === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+export interface QueryBarStrings {
+  label: string
+  placeholder: string
+  help: string
+  matches: (count: number, total: number) => string
+  selectMatches: string
+  save: string
+  clear: string
+  savedLabel: string
+  removeSaved: (query: string) => string
+}
+
+interface QueryBarProps {
+  query: string
+  onQueryChange: (query: string) => void
+  /** Parse error for the current query; the table stays unfiltered by it while set. */
+  error?: string
+  matchCount: number
+  totalCount: number
+  onSelectMatches: () => void
+  strings: QueryBarStrings
+}
+
+const QueryBarComponent = ({
+  query,
+  onQueryChange,
+  error,
+  matchCount,
+  totalCount,
+  onSelectMatches,
+  strings,
+}: QueryBarProps) => {
+  const [savedQueries, setSavedQueries] = useState(loadSavedQueries)
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(SAVED_QUERIES_KEY, JSON.stringify(savedQueries))
+    } catch (err) {
+      console.error(err)
+    }
+  }, [savedQueries])
+
+  const trimmed = query.trim()
+
+  return (
+    <div className="query-bar">
+      <div className="search-group">
+        <label htmlFor="event-query-input">{strings.label}</label>
+        <div className="search-controls">
+          <input
+            id="event-query-input"
+            type="text"
+            value={query}
+            spellCheck={false}
+            placeholder={strings.placeholder}
+            aria-invalid={Boolean(error)}
+            aria-describedby="event-query-help"
+            onChange={(event) => onQueryChange(event.target.value)}
+          />
+          <button type="button" onClick={() => onQueryChange('')} disabled={!query}>
+            {strings.clear}
+          </button>
+          <button
+            type="button"
+            onClick={() => setSavedQueries((previous) => [...previous, trimmed])}
+            disabled={!trimmed || Boolean(error) || savedQueries.includes(trimmed)}
+          >
+            {strings.save}
+          </button>
+          <button type="button" onClick={onSelectMatches} disabled={!matchCount}>
+            {strings.selectMatches}
+          </button>
+        </div>
+      </div>
+      {error ? (
+        <span className="query-error">{error}</span>
+      ) : (
+        <span className="estimate">{strings.matches(matchCount, totalCount)}</span>
+      )}
+      <span id="event-query-help" className="panel-note">
+        {strings.help}
+      </span>
+      {savedQueries.length > 0 && (
+        <div className="saved-queries" role="group" aria-label={strings.savedLabel}>
+          {savedQueries.map((saved) => (
+            <span key={saved} className={`saved-query ${saved === trimmed ? 'active' : ''}`.trim()}>
+              <button type="button" onClick={() => onQueryChange(saved)}>
+                {saved}
+              </button>
+              <button
+                type="button"
+                aria-label={strings.removeSaved(saved)}
+                onClick={() => setSavedQueries((previous) => previous.filter((entry) => entry !== saved))}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export const QueryBar = memo(QueryBarComponent)
@@ -0,0 +1,111 @@
+import { memo, useState } from 'react'
+
+import type { RepeatOptions } from '../lib/transforms'
+
+export interface RepeatSelectionPanelStrings {
+  title: string
+  countLabel: string
+  gapLabel: string
+  offsetXLabel: string
+  offsetYLabel: string
+  notContiguous: string
+  estimate: (added: number) => string
+  button: string
+}
+
+interface RepeatSelectionPanelProps {
+  /** Number of events in the contiguous selection, or `null` when the selection is empty or has gaps. */
+  segmentLength: number | null
+  hasSelection: boolean
+  onApply: (count: number, options: RepeatOptions) => void
+  strings: RepeatSelectionPanelStrings
+}
+
+const toNumber = (value: string) => {
+  const parsed = value.trim() === '' ? 0 : Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+const RepeatSelectionPanelComponent = ({ segmentLength, hasSelection, onApply, strings }: RepeatSelectionPanelProps) => {
+  const [count, setCount] = useState('2')
+  const [gap, setGap] = useState('0')
+  const [offsetX, setOffsetX] = useState('0')
+  const [offsetY, setOffsetY] = useState('0')
+
+  const parsedCount = toNumber(count)
+  const parsedGap = toNumber(gap)
+  const parsedOffsetX = toNumber(offsetX)
+  const parsedOffsetY = toNumber(offsetY)
+  const isValid =
+    parsedCount !== null &&
+    parsedCount >= 2 &&
+    parsedGap !== null &&
+    parsedGap >= 0 &&
+    parsedOffsetX !== null &&
+    parsedOffsetY !== null
+
+  return (
+    <div className="selection-actions tool-row">
+      <span className="group-title">{strings.title}</span>
+      <div className="action-group">
+        <label htmlFor="repeat-count-input">{strings.countLabel}</label>
+        <input
+          id="repeat-count-input"
+          type="number"
+          min={2}
+          step={1}
+          value={count}
+          onChange={(event) => setCount(event.target.value)}
+        />
+      </div>
+      <div className="action-group">
+        <label htmlFor="repeat-gap-input">{strings.gapLabel}</label>
+        <input
+          id="repeat-gap-input"
+          type="number"
+          min={0}
+          value={gap}
+          onChange={(event) => setGap(event.target.value)}
+        />
+      </div>
+      <div className="action-group">
+        <label htmlFor="repeat-offset-x-input">{strings.offsetXLabel}</label>
+        <input
+          id="repeat-offset-x-input"
+          type="number"
+          value={offsetX}
+          onChange={(event) => setOffsetX(event.target.value)}
+        />
+      </div>
+      <div className="action-group">
+        <label htmlFor="repeat-offset-y-input">{strings.offsetYLabel}</label>
+        <input
+          id="repeat-offset-y-input"
+          type="number"
+          value={offsetY}
+          onChange={(event) => setOffsetY(event.target.value)}
+        />
+      </div>
+      {hasSelection && segmentLength === null && <span className="estimate">{strings.notContiguous}</span>}
+      {segmentLength !== null && isValid && (
+        <span className="estimate">{strings.estimate(segmentLength * (Math.floor(parsedCount) - 1))}</span>
+      )}
+      <button
+        type="button"
+        className="add-button"
+        disabled={segmentLength === null || !isValid}
+        onClick={() => {
+          if (!isValid) {
+            return
+          }
+
+          onApply(parsedCount, { gap: parsedGap, offset: { x: Math.round(parsedOffsetX), y: Math.round(parsedOffsetY) } })
+        }}
+      >
+        {strings.button}
+      </button>
+    </div>
+  )
+}
+
+export const RepeatSelectionPanel = memo(RepeatSelectionPanelComponent)
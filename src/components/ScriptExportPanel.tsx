@@ -0,0 +1,80 @@
+import { memo, useState } from 'react'
+
+import type { MacroStepOptions } from '../lib/macroSteps'
+import { SCRIPT_EXPORTERS, type ScriptFormat } from '../lib/scriptExporters'
+
+export interface ScriptExportPanelStrings {
+  title: string
+  formatLabel: string
+  mergePairsLabel: string
+  minMoveLabel: string
+  minMovePlaceholder: string
+  button: string
+}
+
+interface ScriptExportPanelProps {
+  disabled: boolean
+  onExport: (format: ScriptFormat, options: MacroStepOptions) => void
+  strings: ScriptExportPanelStrings
+}
+
+const FORMATS = Object.keys(SCRIPT_EXPORTERS) as ScriptFormat[]
+
+const ScriptExportPanelComponent = ({ disabled, onExport, strings }: ScriptExportPanelProps) => {
+  const [format, setFormat] = useState<ScriptFormat>(FORMATS[0])
+  const [mergePairs, setMergePairs] = useState(true)
+  const [minMoveDistance, setMinMoveDistance] = useState('0')
+
+  return (
+    <section className="tool-panel">
+      <span className="group-title">{strings.title}</span>
+      <div className="action-group">
+        <label htmlFor="script-format-select">{strings.formatLabel}</label>
+        <select
+          id="script-format-select"
+          value={format}
+          onChange={(event) => setFormat(event.target.value as ScriptFormat)}
+        >
+          {FORMATS.map((entry) => (
+            <option key={entry} value={entry}>
+              {SCRIPT_EXPORTERS[entry].label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="action-group">
+        <label htmlFor="script-min-move-input">{strings.minMoveLabel}</label>
+        <div className="action-controls">
+          <input
+            id="script-min-move-input"
+            type="number"
+            min={0}
+            value={minMoveDistance}
+            onChange={(event) => setMinMoveDistance(event.target.value)}
+            placeholder={strings.minMovePlaceholder}
+          />
+        </div>
+      </div>
+      <div className="action-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={mergePairs}
+            onChange={(event) => setMergePairs(event.target.checked)}
+          />
+          {strings.mergePairsLabel}
+        </label>
+      </div>
+      <button
+        type="button"
+        className="add-button"
+        disabled={disabled}
+        onClick={() => onExport(format, { mergePairs, minMoveDistance: Number(minMoveDistance) || 0 })}
+      >
+        {strings.button}
+      </button>
+    </section>
+  )
+}
+
+export const ScriptExportPanel = memo(ScriptExportPanelComponent)
@@ -0,0 +1,369 @@
+import { memo, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+
+import type { EditorEvent } from '../hooks/useRecEditor'
+import {
+  KEY_MESSAGES,
+  MOUSE_BUTTON_MESSAGES,
+  WM_MOUSEMOVE,
+  WM_MOUSEWHEEL,
+  formatMessageLabel,
+} from '../lib/messageCatalog'
+import { findFirstIndexFrom, findIndexAtTime, type RetimeMode } from '../lib/transforms'
+
+const LANE_HEIGHT = 28
+const RULER_HEIGHT = 22
+const MAX_ZOOM = 2
+/** Browsers stop laying out elements somewhere past 16–33M px; stay well below that. */
+const MAX_CONTENT_WIDTH = 8_000_000
+const ZOOM_STEP = 1.5
+const MIN_TICK_SPACING = 80
+
+export type TimelineLane = 'keyboard' | 'buttons' | 'moves' | 'wheel'
+
+const LANES: Array<{ id: TimelineLane; matches: (message: number) => boolean }> = [
+  { id: 'keyboard', matches: (message) => KEY_MESSAGES.has(message) },
+  { id: 'buttons', matches: (message) => MOUSE_BUTTON_MESSAGES.has(message) },
+  { id: 'moves', matches: (message) => message === WM_MOUSEMOVE },
+  { id: 'wheel', matches: (message) => message === WM_MOUSEWHEEL },
+]
+
+const laneIndexOf = (message: number) => LANES.findIndex((lane) => lane.matches(message))
+
+export interface TimelineEditorStrings {
+  title: string
+  lanes: Record<TimelineLane, string>
+  zoomIn: string
+  zoomOut: string
+  fit: string
+  ripple: string
+  hint: string
+  markerTooltip: (row: number, label: string, time: number, delay: number) => string
+  grouped: (count: number) => string
+}
+
+interface TimelineEditorProps {
+  events: EditorEvent[]
+  duration: number
+  selectedIds: Set<string>
+  onRetime: (id: string, time: number, mode: RetimeMode) => void
+  onSelect: (ids: string[], extend: boolean) => void
+  onFocusEvent: (id: string) => void
+  strings: TimelineEditorStrings
+}
+
+interface TimelineMarker {
+  id: string
+  index: number
+  lane: number
+  x: number
+  /** Events sharing this pixel column; only the first one is drawn and draggable. */
+  count: number
+  selected: boolean
+}
+
+type Gesture =
+  | { kind: 'drag'; id: string; time: number; startX: number; offset: number }
+  | { kind: 'box'; startX: number; startY: number; x: number; y: number }
+
+const pickTickStep = (zoom: number) => {
+  const minimum = MIN_TICK_SPACING / zoom
+  let magnitude = 1
+
+  while (magnitude * 10 < minimum) {
+    magnitude *= 10
+  }
+
+  return [1, 2, 5, 10].map((factor) => factor * magnitude).find((step) => step >= minimum) ?? magnitude * 10
+}
+
+const formatTick = (time: number, step: number) => {
+  const decimals = step >= 1000 ? 0 : step >= 100 ? 1 : step >= 10 ? 2 : 3
+  return `${(time / 1000).toFixed(decimals)}s`
+}
+
+const TimelineEditorComponent = ({
+  events,
+  duration,
+  selectedIds,
+  onRetime,
+  onSelect,
+  onFocusEvent,
+  strings,
+}: TimelineEditorProps) => {
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const pendingScrollRef = useRef<number | null>(null)
+  const [viewportWidth, setViewportWidth] = useState(0)
+  const [scrollLeft, setScrollLeft] = useState(0)
+  const [zoom, setZoom] = useState<number | null>(null)
+  const [ripple, setRipple] = useState(false)
+  const [gesture, setGesture] = useState<Gesture | null>(null)
+
+  const span = Math.max(duration, 1)
+  const fitZoom = viewportWidth > 0 ? viewportWidth / span : 0.1
+  const maxZoom = Math.max(fitZoom, Math.min(MAX_ZOOM, MAX_CONTENT_WIDTH / span))
+  const effectiveZoom = Math.min(Math.max(zoom ?? fitZoom, fitZoom), maxZoom)
+  const contentWidth = Math.ceil(span * effectiveZoom)
+
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) {
+      return undefined
+    }
+
+    const observer = new ResizeObserver(() => setViewportWidth(viewport.clientWidth))
+    observer.observe(viewport)
+    setViewportWidth(viewport.clientWidth)
+    return () => observer.disconnect()
+  }, [])
+
+  useLayoutEffect(() => {
+    if (pendingScrollRef.current !== null && viewportRef.current) {
+      viewportRef.current.scrollLeft = pendingScrollRef.current
+      pendingScrollRef.current = null
+    }
+  }, [effectiveZoom])
+
+  /** Zooms while keeping the time under `anchorOffset` (px from the viewport's left edge) in place. */
+  const applyZoom = (nextZoom: number, anchorOffset = viewportWidth / 2) => {
+    const clamped = Math.min(Math.max(nextZoom, fitZoom), maxZoom)
+    const anchorTime = (scrollLeft + anchorOffset) / effectiveZoom
+    pendingScrollRef.current = Math.max(0, anchorTime * clamped - anchorOffset)
+    setZoom(clamped)
+  }
+
+  const applyZoomRef = useRef(applyZoom)
+  applyZoomRef.current = applyZoom
+
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) {
+      return undefined
+    }
+
+    // React registers wheel listeners as passive, so Ctrl+wheel zoom needs a native one.
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey) {
+        return
+      }
+
+      event.preventDefault()
+      const offset = event.clientX - viewport.getBoundingClientRect().left
+      applyZoomRef.current(Number(viewport.dataset.zoom) * (event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP), offset)
+    }
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false })
+    return () => viewport.removeEventListener('wheel', handleWheel)
+  }, [])
+
+  const markers = useMemo(() => {
+    const startTime = scrollLeft / effectiveZoom
+    const endTime = (scrollLeft + viewportWidth) / effectiveZoom
+    const first = findFirstIndexFrom(events, startTime - 1 / effectiveZoom)
+    const last = findIndexAtTime(events, endTime + 1 / effectiveZoom)
+    const buckets = new Map<number, TimelineMarker>()
+
+    for (let index = first; index < last; index += 1) {
+      const event = events[index]
+      const lane = laneIndexOf(event.message)
+      if (lane === -1) {
+        continue
+      }
+
+      const x = event.time * effectiveZoom
+      const key = lane * MAX_CONTENT_WIDTH + Math.floor(x)
+      const existing = buckets.get(key)
+
+      if (existing) {
+        existing.count += 1
+        existing.selected ||= selectedIds.has(event.id)
+      } else {
+        buckets.set(key, { id: event.id, index, lane, x, count: 1, selected: selectedIds.has(event.id) })
+      }
+    }
+
+    return [...buckets.values()]
+  }, [events, effectiveZoom, scrollLeft, viewportWidth, selectedIds])
+
+  const ticks = useMemo(() => {
+    const step = pickTickStep(effectiveZoom)
+    const start = Math.floor(scrollLeft / effectiveZoom / step) * step
+    const end = (scrollLeft + viewportWidth) / effectiveZoom
+    const values: number[] = []
+
+    for (let time = start; time <= end; time += step) {
+      values.push(time)
+    }
+
+    return { step, values }
+  }, [effectiveZoom, scrollLeft, viewportWidth])
+
+  const contentPosition = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) {
+      return
+    }
+
+    const position = contentPosition(event)
+    const id = (event.target as HTMLElement).dataset.eventId
+    const target = id ? events.find((entry) => entry.id === id) : undefined
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setGesture(
+      target
+        ? { kind: 'drag', id: target.id, time: target.time, startX: position.x, offset: 0 }
+        : { kind: 'box', startX: position.x, startY: position.y, x: position.x, y: position.y },
+    )
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!gesture) {
+      return
+    }
+
+    const position = contentPosition(event)
+    setGesture(
+      gesture.kind === 'drag'
+        ? { ...gesture, offset: position.x - gesture.startX }
+        : { ...gesture, x: position.x, y: position.y },
+    )
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!gesture) {
+      return
+    }
+
+    setGesture(null)
+    const extend = event.shiftKey || event.ctrlKey || event.metaKey
+
+    if (gesture.kind === 'drag') {
+      if (gesture.offset === 0) {
+        onSelect([gesture.id], extend)
+        onFocusEvent(gesture.id)
+      } else {
+        onRetime(gesture.id, gesture.time + gesture.offset / effectiveZoom, ripple ? 'ripple' : 'anchor')
+      }
+      return
+    }
+
+    const fromTime = Math.min(gesture.startX, gesture.x) / effectiveZoom
+    const toTime = Math.max(gesture.startX, gesture.x) / effectiveZoom
+    const fromLane = Math.floor(Math.min(gesture.startY, gesture.y) / LANE_HEIGHT)
+    const toLane = Math.floor(Math.max(gesture.startY, gesture.y) / LANE_HEIGHT)
+    const ids: string[] = []
+
+    for (let index = findFirstIndexFrom(events, fromTime); index < findIndexAtTime(events, toTime); index += 1) {
+      const lane = laneIndexOf(events[index].message)
+      if (lane >= fromLane && lane <= toLane) {
+        ids.push(events[index].id)
+      }
+    }
+
+    onSelect(ids, extend)
+  }
+
+  const dragOffsetFor = (id: string) => (gesture?.kind === 'drag' && gesture.id === id ? gesture.offset : 0)
+
+  return (
+    <section className="timeline-editor" aria-label={strings.title}>
+      <header className="timeline-header">
+        <h2>{strings.title}</h2>
+        <div className="timeline-controls">
+          <button type="button" onClick={() => applyZoom(effectiveZoom / ZOOM_STEP)} aria-label={strings.zoomOut}>
+            −
+          </button>
+          <button type="button" onClick={() => applyZoom(effectiveZoom * ZOOM_STEP)} aria-label={strings.zoomIn}>
+            +
+          </button>
+          <button type="button" onClick={() => setZoom(null)}>
+            {strings.fit}
+          </button>
+          <label className="checkbox-label">
+            <input type="checkbox" checked={ripple} onChange={(event) => setRipple(event.target.checked)} />
+            {strings.ripple}
+          </label>
+        </div>
+      </header>
+      <div className="timeline-body">
+        <div className="timeline-lane-labels" style={{ paddingTop: RULER_HEIGHT }}>
+          {LANES.map((lane) => (
+            <div key={lane.id} className="timeline-lane-label" style={{ height: LANE_HEIGHT }}>
+              {strings.lanes[lane.id]}
+            </div>
+          ))}
+        </div>
+        <div
+          ref={viewportRef}
+          className="timeline-viewport"
+          data-zoom={effectiveZoom}
+          onScroll={(event) => setScrollLeft(event.currentTarget.scrollLeft)}
+        >
+          <div className="timeline-content" style={{ width: contentWidth }}>
+            <div className="timeline-ruler" style={{ height: RULER_HEIGHT }}>
+              {ticks.values.map((time) => (
+                <span key={time} className="timeline-tick" style={{ left: time * effectiveZoom }}>
+                  {formatTick(time, ticks.step)}
+                </span>
+              ))}
+            </div>
+            <div
+              className="timeline-lanes"
+              style={{ height: LANES.length * LANE_HEIGHT }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setGesture(null)}
+            >
+              {markers.map((marker) => {
+                const event = events[marker.index]
+                const tooltip =
+                  marker.count > 1
+                    ? strings.grouped(marker.count)
+                    : [
+                        strings.markerTooltip(marker.index + 1, formatMessageLabel(event.message), event.time, event.delay),
+                        event.comment,
+                      ]
+                        .filter(Boolean)
+                        .join('\n')
+
+                return (
+                  <div
+                    key={marker.id}
+                    data-event-id={marker.id}
+                    className={`timeline-marker lane-${LANES[marker.lane].id}${marker.selected ? ' selected' : ''}${
+                      marker.count > 1 ? ' grouped' : ''
+                    }`}
+                    style={{
+                      left: marker.x + dragOffsetFor(marker.id),
+                      top: marker.lane * LANE_HEIGHT + 4,
+                      height: LANE_HEIGHT - 8,
+                    }}
+                    title={tooltip}
+                  />
+                )
+              })}
+              {gesture?.kind === 'box' && (
+                <div
+                  className="timeline-box"
+                  style={{
+                    left: Math.min(gesture.startX, gesture.x),
+                    top: Math.min(gesture.startY, gesture.y),
+                    width: Math.abs(gesture.x - gesture.startX),
+                    height: Math.abs(gesture.y - gesture.startY),
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+      <span className="panel-note">{strings.hint}</span>
+    </section>
+  )
+}
+
+export const TimelineEditor = memo(TimelineEditorComponent)
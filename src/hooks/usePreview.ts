@@ -1,9 +1,8 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 
 import type { EditorEvent } from './useRecEditor'
-
-const MOUSE_MESSAGES = new Set([0x0200, 0x0201, 0x0202, 0x0204, 0x0205, 0x0207, 0x0208])
-const KEY_MESSAGES = new Set([0x0100, 0x0101, 0x0104, 0x0105])
+import { decodeMousePoint } from '../lib/eventParams'
+import { KEY_MESSAGES, MOUSE_MESSAGES } from '../lib/messageCatalog'
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
@@ -54,6 +53,57 @@ export interface PreviewState {
   focusEvent: (id: string) => void
 }
 
+/** Extracts the mouse path, its bounds and key/click markers from the timeline. */
+export const buildPreviewData = (events: EditorEvent[]) => {
+  const points: PreviewPathPoint[] = []
+  const keys: PreviewKeyEvent[] = []
+  const clicks: PreviewClickEvent[] = []
+
+  let minX = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+
+  events.forEach((event) => {
+    if (MOUSE_MESSAGES.has(event.message)) {
+      const { x, y } = decodeMousePoint(event)
+
+      if (Number.isFinite(x) && Number.isFinite(y)) {
+        points.push({ id: event.id, time: event.time, x, y, message: event.message })
+        minX = Math.min(minX, x)
+        maxX = Math.max(maxX, x)
+        minY = Math.min(minY, y)
+        maxY = Math.max(maxY, y)
+
+        if (event.message === 0x0201 || event.message === 0x0202) {
+          clicks.push({ id: event.id, time: event.time, message: event.message, x, y })
+        }
+      }
+    } else if (KEY_MESSAGES.has(event.message)) {
+      keys.push({ id: event.id, time: event.time, message: event.message, code: event.paramL })
+    }
+  })
+
+  if (!points.length) {
+    minX = 0
+    maxX = 1
+    minY = 0
+    maxY = 1
+  }
+
+  return {
+    points,
+    bounds: {
+      minX,
+      maxX,
+      minY,
+      maxY,
+    },
+    keys,
+    clicks,
+  }
+}
+
 export const usePreview = (events: EditorEvent[], duration: number): PreviewState => {
   const [currentTime, setCurrentTime] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
@@ -61,56 +111,7 @@ export const usePreview = (events: EditorEvent[], duration: number): PreviewStat
   const rafRef = useRef<number | null>(null)
   const lastTimestampRef = useRef<number | null>(null)
 
-  const pathData = useMemo(() => {
-    const points: PreviewPathPoint[] = []
-    const keys: PreviewKeyEvent[] = []
-    const clicks: PreviewClickEvent[] = []
-
-    let minX = Number.POSITIVE_INFINITY
-    let maxX = Number.NEGATIVE_INFINITY
-    let minY = Number.POSITIVE_INFINITY
-    let maxY = Number.NEGATIVE_INFINITY
-
-    events.forEach((event) => {
-      if (MOUSE_MESSAGES.has(event.message)) {
-        const x = event.paramL
-        const y = event.paramH
-
-        if (Number.isFinite(x) && Number.isFinite(y)) {
-          points.push({ id: event.id, time: event.time, x, y, message: event.message })
-          minX = Math.min(minX, x)
-          maxX = Math.max(maxX, x)
-          minY = Math.min(minY, y)
-          maxY = Math.max(maxY, y)
-
-          if (event.message === 0x0201 || event.message === 0x0202) {
-            clicks.push({ id: event.id, time: event.time, message: event.message, x, y })
-          }
-        }
-      } else if (KEY_MESSAGES.has(event.message)) {
-        keys.push({ id: event.id, time: event.time, message: event.message, code: event.paramL })
-      }
-    })
-
-    if (!points.length) {
-      minX = 0
-      maxX = 1
-      minY = 0
-      maxY = 1
-    }
-
-    return {
-      points,
-      bounds: {
-        minX,
-        maxX,
-        minY,
-        maxY,
-      },
-      keys,
-      clicks,
-    }
-  }, [events])
+  const pathData = useMemo(() => buildPreviewData(events), [events])
 
   const eventTimeMap = useMemo(() => {
     const map = new Map<string, number>()
@@ -1,6 +1,39 @@
-import { useCallback, useState } from 'react'
-
-import { encodeRec, parseRec } from '../lib/recParser'
+import { useCallback, useMemo, useState } from 'react'
+
+import { parseClipboardEvents, serializeClipboardEvents } from '../lib/clipboard'
+import type { MousePoint } from '../lib/eventParams'
+import { applyInsertions, findInputBalanceIssues, planReleases, type ReleasePlacement } from '../lib/inputBalance'
+import { cloneAsEncodable, encodeRec, parseRec } from '../lib/recParser'
+import type { MacroStepOptions } from '../lib/macroSteps'
+import { PROJECT_EXTENSION, encodeProject, parseProject, type ProjectMarker } from '../lib/projectFile'
+import { SCRIPT_EXPORTERS, type ScriptFormat } from '../lib/scriptExporters'
+import { encodeTextMacro, parseTextMacro } from '../lib/textMacro'
+import {
+  addToDelays,
+  clampSmallDelays as clampSmallDelaysTransform,
+  hasTimelineChanged,
+  humanizeEvents,
+  insertTimeline,
+  mapMouseCoordinates,
+  mostCommonHwnd,
+  moveMouseEvent,
+  recomputeTimeline,
+  repeatSegment,
+  replaceEvents,
+  retimeEvent as retimeEventTransform,
+  sanitizeDelay,
+  scaleDelays,
+  setDelays,
+  simplifyMouseMoves,
+  type EventPredicate,
+  type HumanizeOptions,
+  type InsertPosition,
+  type Rect,
+  type RepeatOptions,
+  type ReplaceRule,
+  type RetimeMode,
+  type ScaleDelayOptions,
+} from '../lib/transforms'
 
 export interface EditorEvent {
   id: string
@@ -10,13 +43,58 @@ export interface EditorEvent {
   delay: number
   time: number
   hwnd: number
+  /** Free-text note; only project files can store it. */
+  comment?: string
 }
 
+/** A named bookmark on one event, or a colored section when `endEventId` is set. */
+export interface MacroMarker {
+  id: string
+  name: string
+  color: string
+  eventId: string
+  /** Last event of a section (inclusive). */
+  endEventId?: string
+}
+
+/** A marker whose events are still in the macro, with their current indexes. */
+export interface PlacedMarker extends MacroMarker {
+  index: number
+  /** Equals `index` for point markers. */
+  endIndex: number
+}
+
+/** Whether a batch operation targets the selected events or the whole macro. */
+export type OperationScope = 'selection' | 'all'
+
+export type EditorEventPatch = Partial<Pick<EditorEvent, 'message' | 'paramL' | 'paramH' | 'delay' | 'hwnd'>>
+
 interface LoadResult {
   fileName?: string
   baseTime?: number
 }
 
+type MarkerPatch = Partial<Pick<MacroMarker, 'name' | 'color'>>
+
+/** A parsed file waiting to be merged into the current macro. */
+export interface IncomingMacro {
+  fileName: string
+  events: EditorEvent[]
+}
+
+/** Where merged events go; the selection positions fall back to the end when nothing is selected. */
+export type MergePosition = 'beforeSelection' | 'afterSelection' | 'end' | 'timestamp'
+
+export interface MergeOptions {
+  position: MergePosition
+  /** Milliseconds from the start of the macro, for the `timestamp` position. */
+  timestamp?: number
+  /** Pause (ms) before the first merged event. */
+  gap?: number
+  /** Sends the merged events to the current macro's most common window handle. */
+  remapHwnd?: boolean
+}
+
 export interface RecEditorState {
   events: EditorEvent[]
   fileName?: string
@@ -26,21 +104,59 @@ export interface RecEditorState {
   isLoading: boolean
   error?: string
   loadFile: (file: File) => Promise<LoadResult | undefined>
-  mergeFile: (file: File) => Promise<void>
+  /** Parses a file for merging without touching the current macro. */
+  readMacroFile: (file: File) => Promise<IncomingMacro | undefined>
+  /** Inserts `incoming` as one undo step and selects the merged events. */
+  mergeEvents: (incoming: EditorEvent[], options: MergeOptions) => void
   updateDelay: (id: string, value: number) => void
+  updateEvent: (id: string, patch: EditorEventPatch) => void
+  /** Moves a mouse event to `point`; a press takes its release along, as one undo step. */
+  movePoint: (id: string, point: MousePoint) => void
   removeEvent: (id: string) => void
+  /** Sets an event's free-text note; an empty string removes it. Undoable like any other edit. */
+  setComment: (id: string, comment: string) => void
   insertEvents: (index: number, newEvents: Array<Partial<Pick<EditorEvent, 'delay'>> & Omit<EditorEvent, 'id' | 'time' | 'delay'>>, delayTotal: number) => void
   resetChanges: () => void
   exportRec: () => { blob: Blob; fileName: string } | undefined
+  exportText: () => { blob: Blob; fileName: string } | undefined
+  exportScript: (format: ScriptFormat, options?: MacroStepOptions) => { blob: Blob; fileName: string } | undefined
+  /** Saves events, `baseTime`, markers and comments as a `.rtproj` project file. */
+  exportProject: () => { blob: Blob; fileName: string } | undefined
+  /** Markers sorted by position; ones whose events were deleted are hidden until an undo brings them back. */
+  markers: PlacedMarker[]
+  /** Adds a marker on `eventId`, or a section up to `endEventId`; returns the new marker's id. */
+  addMarker: (marker: Omit<MacroMarker, 'id'>) => string
+  updateMarker: (id: string, patch: MarkerPatch) => void
+  removeMarker: (id: string) => void
   selectedIds: Set<string>
   selectedCount: number
   toggleSelection: (id: string, index: number, options?: { shift?: boolean; meta?: boolean }) => void
   selectAll: () => void
+  /** Selects exactly `ids`, or adds them to the current selection when `extend` is set. */
+  selectEvents: (ids: string[], options?: { extend?: boolean }) => void
   clearSelection: () => void
   applyDelayToSelection: (value: number) => void
   addDelayToSelection: (delta: number) => void
   clampSmallDelays: (threshold: number) => void
+  scaleTiming: (factor: number, options?: ScaleDelayOptions & { scope?: OperationScope }) => void
+  transformCoordinates: (from: Rect, to: Rect, scope?: OperationScope) => void
+  simplifyMousePath: (tolerance: number, scope?: OperationScope) => void
+  humanize: (options: HumanizeOptions, scope?: OperationScope) => void
+  /** Find & replace: rewrites every event matching `rule` (see `replaceEvents`) as one undo step. */
+  replaceAll: (rule: ReplaceRule, scope?: OperationScope) => void
+  /** Inserts the missing releases for unreleased keys/buttons (all of them, or the presses listed). */
+  releaseStuckInputs: (placement: ReleasePlacement, pressIds?: string[]) => void
   deleteSelected: () => void
+  /** Serializes the selected events for the clipboard (see `lib/clipboard`). */
+  copySelection: () => string | undefined
+  /** Like `copySelection`, then removes the selected events as one undo step. */
+  cutSelection: () => string | undefined
+  /** Inserts clipboard events after the selection (or at the end); returns how many were pasted. */
+  pasteEvents: (text: string, firstDelay: number) => number
+  /** Runs the contiguous selected range `count` times in total; no-op for gapped selections. */
+  repeatSelection: (count: number, options?: RepeatOptions) => void
+  /** Moves one event to `time` ms from the start (see `retimeEvent` in `lib/transforms`). */
+  retimeEvent: (id: string, time: number, mode: RetimeMode) => void
   undo: () => void
   redo: () => void
   canUndo: boolean
@@ -50,42 +166,188 @@ export interface RecEditorState {
 const UINT32_MAX = 0x1_0000_0000
 const HISTORY_LIMIT = 50
 
-const sanitizeDelay = (value: number) => {
-  if (!Number.isFinite(value) || value < 0) {
+/** One undo/redo step: markers are restored together with the events they point at. */
+interface HistoryEntry {
+  events: EditorEvent[]
+  markers: MacroMarker[]
+  /** Set by marker edits that fold into the next edit with the same key (e.g. dragging a color picker). */
+  mergeKey?: string
+}
+
+const snapshotOf = (events: EditorEvent[], markers: MacroMarker[]): HistoryEntry => ({
+  events: events.map((event) => ({ ...event })),
+  markers,
+})
+
+const pushSnapshot = (entries: HistoryEntry[], entry: HistoryEntry) => {
+  const next = [...entries, entry]
+  if (next.length > HISTORY_LIMIT) {
+    next.shift()
+  }
+  return next
+}
+const TEXT_MACRO_PATTERN = /\.txt$/i
+const PROJECT_PATTERN = /\.rtproj$/i
+const MACRO_EXTENSION_PATTERN = /\.(rec|txt|rtproj)$/i
+
+const sanitizeParam = (value: number) => {
+  if (!Number.isFinite(value)) {
     return 0
   }
 
-  return Math.min(Math.round(value), UINT32_MAX - 1)
+  const normalised = Math.trunc(value)
+  return ((normalised % UINT32_MAX) + UINT32_MAX) % UINT32_MAX
 }
 
-const recomputeTimeline = (events: EditorEvent[]): EditorEvent[] => {
-  let elapsed = 0
+const sanitizePatch = (patch: EditorEventPatch): EditorEventPatch => {
+  const result: EditorEventPatch = {}
 
-  return events.map((event, index) => {
-    if (index === 0) {
-      elapsed = 0
-      return { ...event, delay: 0, time: 0 }
-    }
+  if (patch.message !== undefined) {
+    result.message = sanitizeParam(patch.message)
+  }
+  if (patch.paramL !== undefined) {
+    result.paramL = sanitizeParam(patch.paramL)
+  }
+  if (patch.paramH !== undefined) {
+    result.paramH = sanitizeParam(patch.paramH)
+  }
+  if (patch.hwnd !== undefined) {
+    result.hwnd = sanitizeParam(patch.hwnd)
+  }
+  if (patch.delay !== undefined) {
+    result.delay = sanitizeDelay(patch.delay)
+  }
 
-    const delay = sanitizeDelay(event.delay)
-    elapsed += delay
+  return result
+}
 
-    return { ...event, delay, time: elapsed }
-  })
+/** Index range covered by the selection, or `null` when nothing is selected or the selection has gaps. */
+export const findContiguousSelection = (events: EditorEvent[], selectedIds: Set<string>) => {
+  const start = events.findIndex((event) => selectedIds.has(event.id))
+  if (start === -1) {
+    return null
+  }
+
+  let end = start
+  while (end + 1 < events.length && selectedIds.has(events[end + 1].id)) {
+    end += 1
+  }
+
+  return end - start + 1 === selectedIds.size ? { start, end } : null
 }
 
-const createEditorEvents = (events: ReturnType<typeof parseRec>['events']): EditorEvent[] => {
-  return events.map((event, index) => ({
-    id: `${index}-${event.time}-${event.message}-${event.paramL}-${event.paramH}`,
+let lastEventId = 0
+
+/**
+ * Every event gets a fresh id when it is loaded or created and keeps it through edits, undo and
+ * redo, so selections, markers and comments can follow it.
+ */
+const createEventId = () => `event-${(lastEventId += 1)}`
+
+const createMarkerId = () => `marker-${Date.now()}-${Math.random()}`
+
+const createEditorEvents = (
+  events: Array<ReturnType<typeof parseRec>['events'][number] & { comment?: string }>,
+): EditorEvent[] => {
+  return events.map((event) => ({
+    id: createEventId(),
     message: event.message,
     paramL: event.paramL,
     paramH: event.paramH,
     delay: event.delay,
     time: event.time,
     hwnd: event.hwnd,
+    ...(event.comment ? { comment: event.comment } : {}),
   }))
 }
 
+/** Parses a dropped file as a project, a text macro or a binary `.rec`, depending on its extension. */
+const parseMacroFile = async (file: File): Promise<ReturnType<typeof parseProject>> => {
+  if (PROJECT_PATTERN.test(file.name)) {
+    return parseProject(await file.text())
+  }
+
+  const parsed = TEXT_MACRO_PATTERN.test(file.name)
+    ? parseTextMacro(await file.text())
+    : parseRec(await file.arrayBuffer())
+
+  return { events: parsed.events, baseTime: parsed.baseTime, markers: [] }
+}
+
+/** Strips editor-only fields but keeps comments, for the formats that can store them. */
+const toCommentedEvents = (events: EditorEvent[]) =>
+  cloneAsEncodable(events).map((event, index) =>
+    events[index].comment ? { ...event, comment: events[index].comment } : event,
+  )
+
+/**
+ * Keeps sections whose first or last event was removed: each missing boundary moves to the nearest
+ * event of the old range that is still there. Bookmarks (and sections removed entirely) are left
+ * pointing at the missing events, hidden until an undo brings them back.
+ */
+const reanchorMarkers = (previous: EditorEvent[], next: EditorEvent[], markers: MacroMarker[]): MacroMarker[] => {
+  if (!markers.some((marker) => marker.endEventId !== undefined)) {
+    return markers
+  }
+
+  const nextIds = new Set(next.map((event) => event.id))
+  const previousIndexById = new Map(previous.map((event, index) => [event.id, index]))
+  let didChange = false
+
+  const reanchored = markers.map((marker) => {
+    if (marker.endEventId === undefined || (nextIds.has(marker.eventId) && nextIds.has(marker.endEventId))) {
+      return marker
+    }
+
+    const start = previousIndexById.get(marker.eventId)
+    const end = previousIndexById.get(marker.endEventId)
+    if (start === undefined || end === undefined) {
+      return marker
+    }
+
+    const survivors = previous
+      .slice(Math.min(start, end), Math.max(start, end) + 1)
+      .filter((event) => nextIds.has(event.id))
+    if (!survivors.length) {
+      return marker
+    }
+
+    didChange = true
+    return { ...marker, eventId: survivors[0].id, endEventId: survivors[survivors.length - 1].id }
+  })
+
+  return didChange ? reanchored : markers
+}
+
+const placeMarkers = (events: EditorEvent[], markers: MacroMarker[]): PlacedMarker[] => {
+  if (!markers.length) {
+    return []
+  }
+
+  const indexById = new Map(events.map((event, index) => [event.id, index]))
+  const placed: PlacedMarker[] = []
+
+  markers.forEach((marker) => {
+    const index = indexById.get(marker.eventId)
+    const end = marker.endEventId === undefined ? index : indexById.get(marker.endEventId)
+
+    if (index !== undefined && end !== undefined) {
+      placed.push({ ...marker, index: Math.min(index, end), endIndex: Math.max(index, end) })
+    }
+  })
+
+  return placed.sort((a, b) => a.index - b.index || b.endIndex - a.endIndex)
+}
+
+const toEditorMarkers = (events: EditorEvent[], markers: ProjectMarker[]): MacroMarker[] =>
+  markers.map(({ name, color, start, end }) => ({
+    id: createMarkerId(),
+    name,
+    color,
+    eventId: events[start].id,
+    ...(end !== undefined ? { endEventId: events[end].id } : {}),
+  }))
+
 type EventMutationResult = {
   next: EditorEvent[]
   selectionOverride?: Set<string>
@@ -101,8 +363,12 @@ export const useRecEditor = (): RecEditorState => {
   const [isDirty, setIsDirty] = useState(false)
   const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
   const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null)
-  const [history, setHistory] = useState<EditorEvent[][]>([])
-  const [future, setFuture] = useState<EditorEvent[][]>([])
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [future, setFuture] = useState<HistoryEntry[]>([])
+  const [markerList, setMarkerList] = useState<MacroMarker[]>([])
+  const [initialMarkers, setInitialMarkers] = useState<MacroMarker[]>([])
+
+  const markers = useMemo(() => placeMarkers(events, markerList), [events, markerList])
 
   const duration = events.length ? events[events.length - 1].time : 0
 
@@ -123,17 +389,13 @@ export const useRecEditor = (): RecEditorState => {
 
         const recomputed = recomputeTimeline(mutation.next)
 
-        if (options.trackHistory !== false) {
-          const snapshot = previous.map((event) => ({ ...event }))
-          setHistory((prevHistory) => {
-            const nextHistory = [...prevHistory, snapshot]
-            if (nextHistory.length > HISTORY_LIMIT) {
-              nextHistory.shift()
-            }
-            return nextHistory
-          })
-          setFuture([])
-        }
+        setMarkerList((prevMarkers) => {
+          if (options.trackHistory !== false) {
+            setHistory((prevHistory) => pushSnapshot(prevHistory, snapshotOf(previous, prevMarkers)))
+            setFuture([])
+          }
+          return reanchorMarkers(previous, recomputed, prevMarkers)
+        })
 
         setIsDirty(true)
 
@@ -166,12 +428,14 @@ export const useRecEditor = (): RecEditorState => {
       setLoading(true)
 
       try {
-        const arrayBuffer = await file.arrayBuffer()
-        const parsed = parseRec(arrayBuffer)
+        const parsed = await parseMacroFile(file)
         const editorEvents = recomputeTimeline(createEditorEvents(parsed.events))
+        const editorMarkers = toEditorMarkers(editorEvents, parsed.markers)
 
         setEvents(editorEvents)
         setInitialEvents(editorEvents)
+        setMarkerList(editorMarkers)
+        setInitialMarkers(editorMarkers)
         setBaseTime(parsed.baseTime)
         setFileName(file.name)
         setIsDirty(false)
@@ -220,6 +484,63 @@ export const useRecEditor = (): RecEditorState => {
     })
   }, [commitEvents])
 
+  const updateEvent = useCallback<RecEditorState['updateEvent']>((id, patch) => {
+    const normalized = sanitizePatch(patch)
+    const fields = Object.keys(normalized) as Array<keyof EditorEventPatch>
+
+    if (!fields.length) {
+      return
+    }
+
+    commitEvents((current) => {
+      let didChange = false
+
+      const next = current.map((event) => {
+        if (event.id !== id) {
+          return event
+        }
+
+        if (fields.every((field) => event[field] === normalized[field])) {
+          return event
+        }
+
+        didChange = true
+        return { ...event, ...normalized }
+      })
+
+      if (!didChange) {
+        return null
+      }
+
+      return { next }
+    })
+  }, [commitEvents])
+
+  const movePoint = useCallback<RecEditorState['movePoint']>((id, point) => {
+    commitEvents((current) => {
+      const next = moveMouseEvent(current, current.findIndex((event) => event.id === id), point)
+      return next === current ? null : { next }
+    })
+  }, [commitEvents])
+
+  const setComment = useCallback<RecEditorState['setComment']>((id, comment) => {
+    commitEvents((current) => {
+      let didChange = false
+
+      const next = current.map((event) => {
+        if (event.id !== id || (event.comment ?? '') === comment) {
+          return event
+        }
+
+        didChange = true
+        const { comment: _previous, ...rest } = event
+        return comment ? { ...rest, comment } : rest
+      })
+
+      return didChange ? { next } : null
+    })
+  }, [commitEvents])
+
   const removeEvent = useCallback<RecEditorState['removeEvent']>((id) => {
     commitEvents((current) => {
       if (!current.some((event) => event.id === id)) {
@@ -239,12 +560,13 @@ export const useRecEditor = (): RecEditorState => {
     // Clone to avoid sharing references with `initialEvents`
     const snapshot = initialEvents.map((event) => ({ ...event }))
     setEvents(recomputeTimeline(snapshot))
+    setMarkerList(initialMarkers)
     setIsDirty(false)
     setSelectedIds(new Set<string>())
     setSelectionAnchor(null)
     setHistory([])
     setFuture([])
-  }, [initialEvents])
+  }, [initialEvents, initialMarkers])
 
   const exportRec = useCallback<RecEditorState['exportRec']>(() => {
     if (!events.length) {
@@ -264,7 +586,7 @@ export const useRecEditor = (): RecEditorState => {
       )
 
       const blob = new Blob([encoded], { type: 'application/octet-stream' })
-      const safeName = (fileName ?? 'macro').replace(/\.rec$/i, '')
+      const safeName = (fileName ?? 'macro').replace(MACRO_EXTENSION_PATTERN, '')
 
       return { blob, fileName: `${safeName}-edited.rec` }
     } catch (err) {
@@ -274,6 +596,102 @@ export const useRecEditor = (): RecEditorState => {
     }
   }, [events, baseTime, fileName])
 
+  const exportText = useCallback<RecEditorState['exportText']>(() => {
+    if (!events.length) {
+      return undefined
+    }
+
+    const text = encodeTextMacro(toCommentedEvents(events), { baseTime })
+    const blob = new Blob([text], { type: 'text/plain' })
+    const safeName = (fileName ?? 'macro').replace(MACRO_EXTENSION_PATTERN, '')
+
+    return { blob, fileName: `${safeName}.txt` }
+  }, [events, baseTime, fileName])
+
+  const exportScript = useCallback<RecEditorState['exportScript']>((format, options) => {
+    if (!events.length) {
+      return undefined
+    }
+
+    const exporter = SCRIPT_EXPORTERS[format]
+    const script = exporter.render(cloneAsEncodable(events), options)
+    const blob = new Blob([script], { type: exporter.mimeType })
+    const safeName = (fileName ?? 'macro').replace(MACRO_EXTENSION_PATTERN, '')
+
+    return { blob, fileName: `${safeName}.${exporter.extension}` }
+  }, [events, fileName])
+
+  const exportProject = useCallback<RecEditorState['exportProject']>(() => {
+    if (!events.length) {
+      return undefined
+    }
+
+    const text = encodeProject({
+      baseTime,
+      events: toCommentedEvents(events),
+      markers: markers.map(({ name, color, index, endIndex }) =>
+        endIndex === index ? { name, color, start: index } : { name, color, start: index, end: endIndex },
+      ),
+    })
+    const blob = new Blob([text], { type: 'application/json' })
+    const safeName = (fileName ?? 'macro').replace(MACRO_EXTENSION_PATTERN, '')
+
+    return { blob, fileName: `${safeName}${PROJECT_EXTENSION}` }
+  }, [events, baseTime, markers, fileName])
+
+  /**
+   * Marker edits are undo steps of their own; the events are snapshotted alongside. Consecutive
+   * edits with the same `mergeKey` share one step, and edits that change nothing add none.
+   */
+  const commitMarkers = useCallback(
+    (update: (current: MacroMarker[]) => MacroMarker[], mergeKey?: string) => {
+      setMarkerList((previous) => {
+        const next = update(previous)
+        if (next === previous) {
+          return previous
+        }
+
+        setHistory((prevHistory) =>
+          mergeKey && prevHistory[prevHistory.length - 1]?.mergeKey === mergeKey
+            ? prevHistory
+            : pushSnapshot(prevHistory, { ...snapshotOf(events, previous), mergeKey }),
+        )
+        setFuture([])
+        setIsDirty(true)
+        return next
+      })
+    },
+    [events],
+  )
+
+  const addMarker = useCallback<RecEditorState['addMarker']>((marker) => {
+    const id = createMarkerId()
+    commitMarkers((previous) => [...previous, { ...marker, id }])
+    return id
+  }, [commitMarkers])
+
+  const updateMarker = useCallback<RecEditorState['updateMarker']>((id, patch) => {
+    const fields = Object.keys(patch) as Array<keyof MarkerPatch>
+
+    commitMarkers(
+      (previous) => {
+        const target = previous.find((marker) => marker.id === id)
+        if (!target || fields.every((field) => target[field] === patch[field])) {
+          return previous
+        }
+        return previous.map((marker) => (marker === target ? { ...marker, ...patch } : marker))
+      },
+      // A color picker reports every intermediate color while it is dragged.
+      fields.length === 1 && fields[0] === 'color' ? `color:${id}` : undefined,
+    )
+  }, [commitMarkers])
+
+  const removeMarker = useCallback<RecEditorState['removeMarker']>((id) => {
+    commitMarkers((previous) =>
+      previous.some((marker) => marker.id === id) ? previous.filter((marker) => marker.id !== id) : previous,
+    )
+  }, [commitMarkers])
+
   const toggleSelection = useCallback<RecEditorState['toggleSelection']>(
     (id, index, options) => {
       const shift = options?.shift ?? false
@@ -321,35 +739,26 @@ export const useRecEditor = (): RecEditorState => {
     setSelectionAnchor(null)
   }, [events])
 
+  const selectEvents = useCallback<RecEditorState['selectEvents']>((ids, options) => {
+    setSelectedIds((previous) => new Set(options?.extend ? [...previous, ...ids] : ids))
+    setSelectionAnchor(null)
+  }, [])
+
   const clearSelection = useCallback(() => {
     setSelectedIds(new Set<string>())
     setSelectionAnchor(null)
   }, [])
 
   const applyToSelection = useCallback(
-    (updater: (event: EditorEvent, index: number) => EditorEvent | null) => {
+    (transform: (current: EditorEvent[], isSelected: EventPredicate<EditorEvent>) => EditorEvent[]) => {
       if (!selectedIds.size) {
         return
       }
 
       commitEvents((current) => {
-        let didChange = false
-
-        const next = current.map((event, index) => {
-          if (!selectedIds.has(event.id)) {
-            return event
-          }
-
-          const updated = updater(event, index)
-          if (!updated) {
-            return event
-          }
-
-          didChange = true
-          return updated
-        })
+        const next = transform(current, (event) => selectedIds.has(event.id))
 
-        if (!didChange) {
+        if (!hasTimelineChanged(current, next)) {
           return null
         }
 
@@ -360,46 +769,73 @@ export const useRecEditor = (): RecEditorState => {
   )
 
   const applyDelayToSelection = useCallback<RecEditorState['applyDelayToSelection']>((value) => {
-    const normalized = sanitizeDelay(value)
-
-    applyToSelection((event) => {
-      if (event.delay === normalized) {
-        return null
-      }
-
-      return { ...event, delay: normalized }
-    })
+    applyToSelection((current, isSelected) => setDelays(current, value, isSelected))
   }, [applyToSelection])
 
   const addDelayToSelection = useCallback<RecEditorState['addDelayToSelection']>((delta) => {
-    const deltaRounded = Math.round(delta)
+    applyToSelection((current, isSelected) => addToDelays(current, delta, isSelected))
+  }, [applyToSelection])
 
-    applyToSelection((event) => {
-      const nextDelay = sanitizeDelay(event.delay + deltaRounded)
+  const clampSmallDelays = useCallback<RecEditorState['clampSmallDelays']>((threshold) => {
+    applyToSelection((current, isSelected) => clampSmallDelaysTransform(current, threshold, isSelected))
+  }, [applyToSelection])
 
-      if (nextDelay === event.delay) {
-        return null
+  const applyToScope = useCallback(
+    (
+      scope: OperationScope,
+      transform: (current: EditorEvent[], isTarget: EventPredicate<EditorEvent>) => EditorEvent[],
+    ) => {
+      if (scope === 'selection') {
+        applyToSelection(transform)
+        return
       }
 
-      return { ...event, delay: nextDelay }
-    })
-  }, [applyToSelection])
+      commitEvents((current) => {
+        const next = transform(current, () => true)
+        return hasTimelineChanged(current, next) ? { next } : null
+      })
+    },
+    [applyToSelection, commitEvents],
+  )
 
-  const clampSmallDelays = useCallback<RecEditorState['clampSmallDelays']>((threshold) => {
-    const limit = Math.max(0, Math.round(threshold))
+  const scaleTiming = useCallback<RecEditorState['scaleTiming']>((factor, options = {}) => {
+    const { scope = 'selection', ...scaleOptions } = options
+    applyToScope(scope, (current, isTarget) => scaleDelays(current, factor, scaleOptions, isTarget))
+  }, [applyToScope])
 
-    applyToSelection((event, index) => {
-      if (index === 0) {
-        return null
-      }
+  const transformCoordinates = useCallback<RecEditorState['transformCoordinates']>((from, to, scope = 'selection') => {
+    applyToScope(scope, (current, isTarget) => mapMouseCoordinates(current, from, to, isTarget))
+  }, [applyToScope])
+
+  const simplifyMousePath = useCallback<RecEditorState['simplifyMousePath']>((tolerance, scope = 'selection') => {
+    applyToScope(scope, (current, isTarget) => simplifyMouseMoves(current, tolerance, isTarget))
+  }, [applyToScope])
+
+  const humanize = useCallback<RecEditorState['humanize']>((options, scope = 'selection') => {
+    applyToScope(scope, (current, isTarget) => humanizeEvents(current, options, isTarget))
+  }, [applyToScope])
+
+  const replaceAll = useCallback<RecEditorState['replaceAll']>((rule, scope = 'selection') => {
+    applyToScope(scope, (current, isTarget) => replaceEvents(current, rule, isTarget))
+  }, [applyToScope])
+
+  const releaseStuckInputs = useCallback<RecEditorState['releaseStuckInputs']>((placement, pressIds) => {
+    commitEvents((current) => {
+      const issues = findInputBalanceIssues(current).filter(
+        (issue) => issue.kind === 'unreleased' && (!pressIds || pressIds.includes(current[issue.pressIndex].id)),
+      )
+      const insertions = planReleases(current, issues, placement).map(({ index, event }) => ({
+        index,
+        event: { ...event, id: createEventId(), time: 0 },
+      }))
 
-      if (event.delay === 0 || event.delay >= limit) {
+      if (!insertions.length) {
         return null
       }
 
-      return { ...event, delay: 0 }
+      return { next: applyInsertions(current, insertions) }
     })
-  }, [applyToSelection])
+  }, [commitEvents])
 
   const deleteSelected = useCallback<RecEditorState['deleteSelected']>(() => {
     if (!selectedIds.size) {
@@ -419,13 +855,100 @@ export const useRecEditor = (): RecEditorState => {
     )
   }, [commitEvents, selectedIds])
 
+  const copySelection = useCallback<RecEditorState['copySelection']>(() => {
+    const selected = events.filter((event) => selectedIds.has(event.id))
+    return selected.length ? serializeClipboardEvents(selected) : undefined
+  }, [events, selectedIds])
+
+  const cutSelection = useCallback<RecEditorState['cutSelection']>(() => {
+    const text = copySelection()
+    if (text !== undefined) {
+      deleteSelected()
+    }
+    return text
+  }, [copySelection, deleteSelected])
+
+  const pasteEvents = useCallback<RecEditorState['pasteEvents']>((text, firstDelay) => {
+    let pasted: ReturnType<typeof parseClipboardEvents>
+
+    try {
+      pasted = parseClipboardEvents(text)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to parse clipboard contents')
+      return 0
+    }
+
+    if (!pasted.length) {
+      return 0
+    }
+
+    setError(undefined)
+    commitEvents(
+      (current) => {
+        let insertIndex = current.length
+        for (let index = current.length - 1; index >= 0 && selectedIds.size; index -= 1) {
+          if (selectedIds.has(current[index].id)) {
+            insertIndex = index + 1
+            break
+          }
+        }
+
+        const eventsToAdd: EditorEvent[] = pasted.map((event, index) => ({
+          ...event,
+          id: createEventId(),
+          time: 0,
+          delay: index === 0 ? sanitizeDelay(firstDelay) : event.delay,
+        }))
+
+        return {
+          next: [...current.slice(0, insertIndex), ...eventsToAdd, ...current.slice(insertIndex)],
+          selectionOverride: new Set(eventsToAdd.map((event) => event.id)),
+        }
+      },
+      { resetAnchor: true },
+    )
+
+    return pasted.length
+  }, [commitEvents, selectedIds])
+
+  const repeatSelection = useCallback<RecEditorState['repeatSelection']>((count, options) => {
+    commitEvents((current) => {
+      const range = findContiguousSelection(current, selectedIds)
+      if (!range) {
+        return null
+      }
+
+      const copies = repeatSegment(current.slice(range.start, range.end + 1), count, options).map((event) => ({
+        ...event,
+        id: createEventId(),
+      }))
+
+      if (!copies.length) {
+        return null
+      }
+
+      return {
+        next: [...current.slice(0, range.end + 1), ...copies, ...current.slice(range.end + 1)],
+        selectionOverride: new Set([...selectedIds, ...copies.map((event) => event.id)]),
+      }
+    })
+  }, [commitEvents, selectedIds])
+
+  const retimeEvent = useCallback<RecEditorState['retimeEvent']>((id, time, mode) => {
+    commitEvents((current) => {
+      const index = current.findIndex((event) => event.id === id)
+      const next = retimeEventTransform(current, index, time, mode)
+      return next === current ? null : { next }
+    })
+  }, [commitEvents])
+
   const insertEvents = useCallback<RecEditorState['insertEvents']>(
     (index, newEvents, delayTotal) => {
       commitEvents((current) => {
         const clampedIndex = Math.max(0, Math.min(index, current.length))
         const eventsToAdd: EditorEvent[] = newEvents.map((e, i) => ({
           ...e,
-          id: `new-${Date.now()}-${i}-${Math.random()}`,
+          id: createEventId(),
           time: 0, // Will be recomputed
           delay: i === 0 ? delayTotal : (e.delay ?? 0),
         }))
@@ -442,24 +965,57 @@ export const useRecEditor = (): RecEditorState => {
     [commitEvents],
   )
 
-  const mergeFile = useCallback<RecEditorState['mergeFile']>(
-    async (file) => {
-      setError(undefined)
-      setLoading(true)
+  const readMacroFile = useCallback<RecEditorState['readMacroFile']>(async (file) => {
+    setError(undefined)
+    setLoading(true)
 
-      try {
-        const arrayBuffer = await file.arrayBuffer()
-        const parsed = parseRec(arrayBuffer)
-        const newEvents = createEditorEvents(parsed.events)
-        insertEvents(events.length, newEvents, 0)
-      } catch (err) {
-        console.error(err)
-        setError(err instanceof Error ? err.message : 'Failed to parse .rec file for merge')
-      } finally {
-        setLoading(false)
+    try {
+      const parsed = await parseMacroFile(file)
+      return { fileName: file.name, events: recomputeTimeline(createEditorEvents(parsed.events)) }
+    } catch (err) {
+      console.error(err)
+      setError(err instanceof Error ? err.message : 'Failed to parse .rec file for merge')
+      return undefined
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const mergeEvents = useCallback<RecEditorState['mergeEvents']>(
+    (incoming, options) => {
+      if (!incoming.length) {
+        return
       }
+
+      commitEvents(
+        (current) => {
+          const hwnd = options.remapHwnd && current.length ? mostCommonHwnd(current) : undefined
+          const merged: EditorEvent[] = incoming.map((event) => ({
+            ...event,
+            id: createEventId(),
+            hwnd: hwnd ?? event.hwnd,
+          }))
+
+          const selectedIndexes = current.flatMap((event, index) => (selectedIds.has(event.id) ? [index] : []))
+          let position: InsertPosition = { index: current.length }
+
+          if (options.position === 'timestamp') {
+            position = { time: options.timestamp ?? 0 }
+          } else if (options.position === 'beforeSelection' && selectedIndexes.length) {
+            position = { index: selectedIndexes[0] }
+          } else if (options.position === 'afterSelection' && selectedIndexes.length) {
+            position = { index: selectedIndexes[selectedIndexes.length - 1] + 1 }
+          }
+
+          return {
+            next: insertTimeline(current, merged, position, options.gap ?? 0),
+            selectionOverride: new Set(merged.map((event) => event.id)),
+          }
+        },
+        { resetAnchor: true },
+      )
     },
-    [events.length, insertEvents],
+    [commitEvents, selectedIds],
   )
 
   const undo = useCallback<RecEditorState['undo']>(() => {
@@ -468,24 +1024,19 @@ export const useRecEditor = (): RecEditorState => {
         return prevHistory
       }
 
-      const snapshot = prevHistory[prevHistory.length - 1].map((event) => ({ ...event }))
+      const snapshot = prevHistory[prevHistory.length - 1]
 
-      setFuture((prevFuture) => {
-        const next = [...prevFuture, events.map((event) => ({ ...event }))]
-        if (next.length > HISTORY_LIMIT) {
-          next.shift()
-        }
-        return next
-      })
+      setFuture((prevFuture) => pushSnapshot(prevFuture, snapshotOf(events, markerList)))
 
-      setEvents(recomputeTimeline(snapshot))
+      setEvents(recomputeTimeline(snapshot.events.map((event) => ({ ...event }))))
+      setMarkerList(snapshot.markers)
       setSelectedIds(new Set<string>())
       setSelectionAnchor(null)
       setIsDirty(true)
 
       return prevHistory.slice(0, -1)
     })
-  }, [events])
+  }, [events, markerList])
 
   const redo = useCallback<RecEditorState['redo']>(() => {
     setFuture((prevFuture) => {
@@ -493,24 +1044,19 @@ export const useRecEditor = (): RecEditorState => {
         return prevFuture
       }
 
-      const snapshot = prevFuture[prevFuture.length - 1].map((event) => ({ ...event }))
+      const snapshot = prevFuture[prevFuture.length - 1]
 
-      setHistory((prevHistory) => {
-        const next = [...prevHistory, events.map((event) => ({ ...event }))]
-        if (next.length > HISTORY_LIMIT) {
-          next.shift()
-        }
-        return next
-      })
+      setHistory((prevHistory) => pushSnapshot(prevHistory, snapshotOf(events, markerList)))
 
-      setEvents(recomputeTimeline(snapshot))
+      setEvents(recomputeTimeline(snapshot.events.map((event) => ({ ...event }))))
+      setMarkerList(snapshot.markers)
       setSelectedIds(new Set<string>())
       setSelectionAnchor(null)
       setIsDirty(true)
 
       return prevFuture.slice(0, -1)
     })
-  }, [events])
+  }, [events, markerList])
 
   const canUndo = history.length > 0
   const canRedo = future.length > 0
@@ -524,21 +1070,44 @@ export const useRecEditor = (): RecEditorState => {
     isLoading: loading,
     error,
     loadFile,
-    mergeFile,
+    readMacroFile,
+    mergeEvents,
     updateDelay,
+    updateEvent,
+    movePoint,
     removeEvent,
+    setComment,
     insertEvents,
     resetChanges,
     exportRec,
+    exportText,
+    exportScript,
+    exportProject,
+    markers,
+    addMarker,
+    updateMarker,
+    removeMarker,
     selectedIds,
     selectedCount: selectedIds.size,
     toggleSelection,
     selectAll,
+    selectEvents,
     clearSelection,
     applyDelayToSelection,
     addDelayToSelection,
     clampSmallDelays,
+    scaleTiming,
+    transformCoordinates,
+    simplifyMousePath,
+    humanize,
+    replaceAll,
+    releaseStuckInputs,
     deleteSelected,
+    copySelection,
+    cutSelection,
+    pasteEvents,
+    repeatSelection,
+    retimeEvent,
     undo,
     redo,
     canUndo,
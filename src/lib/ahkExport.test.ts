@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vitest'
+
+import { exportAutoHotkey } from './ahkExport'
+import { buildMacroSteps } from './macroSteps'
+
+const hwnd = 0x10
+
+describe('ahkExport', () => {
+  test('merges adjacent down/up pairs and keeps the total sleep time', () => {
+    const events = [
+      { message: 0x0200, paramL: 10, paramH: 20, delay: 0, hwnd },
+      { message: 0x0201, paramL: 10, paramH: 20, delay: 40, hwnd },
+      { message: 0x0202, paramL: 10, paramH: 20, delay: 30, hwnd },
+      { message: 0x0100, paramL: 0x41, paramH: 0, delay: 100, hwnd },
+      { message: 0x0101, paramL: 0x41, paramH: 0, delay: 15, hwnd },
+    ]
+
+    const script = exportAutoHotkey(events)
+    const body = script.split('\n').slice(7, -1)
+
+    expect(body).toEqual([
+      'MouseMove 10, 20, 0',
+      'Sleep 40',
+      'Click "10 20 Left"',
+      'Sleep 130',
+      'Send "{vk41}" ; A',
+    ])
+    expect(script.startsWith('; Generated by TinyTask Macro Editor\n#Requires AutoHotkey v2.0\n')).toBe(true)
+  })
+
+  test('keeps long holds and drags as separate down/up commands', () => {
+    const events = [
+      { message: 0x0204, paramL: 5, paramH: 5, delay: 0, hwnd },
+      { message: 0x0205, paramL: 50, paramH: 5, delay: 10, hwnd },
+      { message: 0x0104, paramL: 0x12, paramH: 0, delay: 10, hwnd },
+      { message: 0x0105, paramL: 0x12, paramH: 0, delay: 500, hwnd },
+    ]
+
+    expect(exportAutoHotkey(events).split('\n').slice(7, -1)).toEqual([
+      'Click "5 5 Right Down"',
+      'Sleep 10',
+      'Click "50 5 Right Up"',
+      'Sleep 10',
+      'Send "{vk12 down}" ; Alt',
+      'Sleep 500',
+      'Send "{vk12 up}" ; Alt',
+    ])
+  })
+
+  test('drops mouse moves below the distance threshold and folds their delay', () => {
+    const events = [
+      { message: 0x0200, paramL: 0, paramH: 0, delay: 0, hwnd },
+      { message: 0x0200, paramL: 1, paramH: 1, delay: 5, hwnd },
+      { message: 0x0200, paramL: 2, paramH: 2, delay: 5, hwnd },
+      { message: 0x0200, paramL: 20, paramH: 0, delay: 5, hwnd },
+    ]
+
+    expect(buildMacroSteps(events, { minMoveDistance: 5 })).toEqual([
+      { kind: 'move', x: 0, y: 0 },
+      { kind: 'sleep', ms: 15 },
+      { kind: 'move', x: 20, y: 0 },
+    ])
+  })
+})
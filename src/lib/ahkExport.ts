@@ -0,0 +1,48 @@
+import { describeVirtualKey } from './keyCodes'
+import { buildMacroSteps, type MacroStep, type MacroStepOptions } from './macroSteps'
+import type { EncodableEvent } from './recParser'
+
+const BUTTON_NAMES = { left: 'Left', right: 'Right', middle: 'Middle' } as const
+
+const formatVirtualKey = (code: number) => `vk${code.toString(16).toUpperCase().padStart(2, '0')}`
+
+const renderStep = (step: MacroStep): string => {
+  switch (step.kind) {
+    case 'sleep':
+      return `Sleep ${step.ms}`
+    case 'move':
+      return `MouseMove ${step.x}, ${step.y}, 0`
+    case 'click':
+      return `Click "${step.x} ${step.y} ${BUTTON_NAMES[step.button]}"`
+    case 'buttonDown':
+      return `Click "${step.x} ${step.y} ${BUTTON_NAMES[step.button]} Down"`
+    case 'buttonUp':
+      return `Click "${step.x} ${step.y} ${BUTTON_NAMES[step.button]} Up"`
+    case 'keyPress':
+      return `Send "{${formatVirtualKey(step.code)}}" ; ${describeVirtualKey(step.code)}`
+    case 'keyDown':
+      return `Send "{${formatVirtualKey(step.code)} down}" ; ${describeVirtualKey(step.code)}`
+    case 'keyUp':
+      return `Send "{${formatVirtualKey(step.code)} up}" ; ${describeVirtualKey(step.code)}`
+    case 'wheel':
+      return `Click "${step.notches < 0 ? 'WheelDown' : 'WheelUp'} ${Math.abs(step.notches)}"`
+    case 'unsupported':
+      return `; Skipped message 0x${step.message.toString(16).toUpperCase()} (${step.paramL}, ${step.paramH})`
+  }
+}
+
+/** Renders the timeline as an AutoHotkey v2 script that replays it with screen coordinates. */
+export function exportAutoHotkey(events: EncodableEvent[], options: MacroStepOptions = {}): string {
+  const lines = [
+    '; Generated by TinyTask Macro Editor',
+    '#Requires AutoHotkey v2.0',
+    'CoordMode "Mouse", "Screen"',
+    'SendMode "Event"',
+    'SetMouseDelay -1',
+    'SetKeyDelay -1',
+    '',
+    ...buildMacroSteps(events, options).map(renderStep),
+  ]
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'vitest'
+
+import { parseClipboardEvents, serializeClipboardEvents } from './clipboard'
+
+const events = [
+  { message: 0x0201, paramL: 10, paramH: 20, delay: 0, hwnd: 0x10 },
+  { message: 0x0202, paramL: 10, paramH: 20, delay: 35, hwnd: 0x10 },
+  { message: 0x0100, paramL: 0x1e41, paramH: 0, delay: 5, hwnd: 0x20 },
+]
+
+describe('clipboard', () => {
+  test('round-trips copied events through the text form', () => {
+    const text = serializeClipboardEvents(events)
+
+    expect(text.startsWith('# tinytask-text v1\n')).toBe(true)
+    expect(parseClipboardEvents(text)).toEqual(events)
+  })
+
+  test('accepts JSON arrays and the CLI json output', () => {
+    expect(parseClipboardEvents(JSON.stringify(events))).toEqual(events)
+    expect(parseClipboardEvents(JSON.stringify({ baseTime: 5, events }))).toEqual(events)
+    expect(() => parseClipboardEvents('[{"message": 1}]')).toThrow('"paramL" must be an integer')
+    expect(() => parseClipboardEvents('hello')).toThrow('Clipboard does not contain macro events')
+  })
+
+  test('carries event comments', () => {
+    const commented = [{ ...events[0], comment: 'opens the inventory' }, events[1]]
+
+    expect(parseClipboardEvents(serializeClipboardEvents(commented))).toEqual(commented)
+    expect(parseClipboardEvents(JSON.stringify(commented))).toEqual(commented)
+  })
+})
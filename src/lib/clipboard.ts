@@ -0,0 +1,63 @@
+import { cloneAsEncodable, type EncodableEvent } from './recParser'
+import { TEXT_MACRO_HEADER, encodeTextMacro, parseTextMacro } from './textMacro'
+
+/**
+ * Clipboard payload for copied event ranges.
+ *
+ * Copied events are written as a text macro (see `textMacro.ts`), so a segment can be pasted into
+ * another file, kept in a note or edited by hand. Pasting also accepts JSON: either the output of
+ * `tinytask-edit convert --to json` (`{ "events": [...] }`) or a bare array of
+ * `{ message, paramL, paramH, delay, hwnd }` objects. Event comments travel with the events. The
+ * first event's delay is always chosen on paste.
+ */
+
+const EVENT_FIELDS = ['message', 'paramL', 'paramH', 'delay', 'hwnd'] as const
+
+export type ClipboardEvent = EncodableEvent & { comment?: string }
+
+export const serializeClipboardEvents = (events: ClipboardEvent[]) => encodeTextMacro(events)
+
+const parseJsonEvents = (text: string): ClipboardEvent[] => {
+  const data: unknown = JSON.parse(text)
+  const list = Array.isArray(data) ? data : (data as { events?: unknown })?.events
+
+  if (!Array.isArray(list)) {
+    throw new Error('Clipboard JSON must be an array of events or an object with an "events" array.')
+  }
+
+  return list.map((entry: Record<string, unknown>, index) => {
+    const event = {} as ClipboardEvent
+
+    EVENT_FIELDS.forEach((field) => {
+      const value = entry?.[field] ?? (field === 'delay' ? 0 : undefined)
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        throw new Error(`Clipboard event ${index + 1}: "${field}" must be an integer.`)
+      }
+      event[field] = value >>> 0
+    })
+
+    if (typeof entry.comment === 'string' && entry.comment) {
+      event.comment = entry.comment
+    }
+
+    return event
+  })
+}
+
+/** Parses a clipboard payload; throws with a readable message when it is not a macro segment. */
+export function parseClipboardEvents(text: string): ClipboardEvent[] {
+  const trimmed = text.trim()
+
+  if (trimmed.startsWith(TEXT_MACRO_HEADER)) {
+    const { events } = parseTextMacro(trimmed)
+    return cloneAsEncodable(events).map((event, index) =>
+      events[index].comment ? { ...event, comment: events[index].comment } : event,
+    )
+  }
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    return parseJsonEvents(trimmed)
+  }
+
+  throw new Error(`Clipboard does not contain macro events (expected "${TEXT_MACRO_HEADER}" text or JSON).`)
+}
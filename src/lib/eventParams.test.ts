@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'vitest'
+
+import { decodeMousePoint, decodeWheelDelta, decodeWheelNotches, encodeMousePoint, encodeWheelDelta } from './eventParams'
+import { encodeRec, parseRec } from './recParser'
+import { mapMouseCoordinates } from './transforms'
+
+describe('eventParams', () => {
+  test('decodes coordinates on monitors left of and above the primary as negative', () => {
+    const event = { paramL: 0xfffff830, paramH: 0xffffffec }
+
+    expect(decodeMousePoint(event)).toEqual({ x: -2000, y: -20 })
+    expect(encodeMousePoint({ x: -2000, y: -20 })).toEqual(event)
+  })
+
+  test('decodes the signed high word of paramH as the wheel delta', () => {
+    expect(decodeWheelDelta(0x00780000)).toBe(120)
+    expect(decodeWheelDelta(0xff880000)).toBe(-120)
+    expect(decodeWheelNotches(0xfe200000)).toBe(-4)
+    expect(decodeWheelNotches(0x00280000)).toBe(1)
+
+    expect(encodeWheelDelta(-240, 0x1234)).toBe(0xff101234)
+  })
+
+  test('round-trips negative coordinates through .rec bit-exactly', () => {
+    const events = [
+      { message: 0x0200, ...encodeMousePoint({ x: -1920, y: 15 }), delay: 0, hwnd: 1 },
+      { message: 0x020a, paramL: 0, paramH: encodeWheelDelta(-120), delay: 10, hwnd: 1 },
+    ]
+
+    const buffer = encodeRec(events, { baseTime: 100 })
+    const parsed = parseRec(buffer)
+
+    expect(parsed.events.map(({ paramL, paramH }) => ({ paramL, paramH }))).toEqual(
+      events.map(({ paramL, paramH }) => ({ paramL, paramH })),
+    )
+    expect(decodeMousePoint(parsed.events[0])).toEqual({ x: -1920, y: 15 })
+    expect(Buffer.from(encodeRec(parsed.events, { baseTime: 100 }))).toEqual(Buffer.from(buffer))
+  })
+
+  test('maps coordinates across the primary monitor boundary', () => {
+    const [moved] = mapMouseCoordinates(
+      [{ message: 0x0200, ...encodeMousePoint({ x: 100, y: 50 }), delay: 0, hwnd: 0 }],
+      { x: 0, y: 0, width: 1, height: 1 },
+      { x: -1920, y: 0, width: 1, height: 1 },
+    )
+
+    expect(decodeMousePoint(moved)).toEqual({ x: -1820, y: 50 })
+  })
+})
@@ -0,0 +1,47 @@
+import type { EncodableEvent } from './recParser'
+
+/**
+ * Decoding of the raw EVENTMSG parameters.
+ *
+ * Events always store `paramL`/`paramH` as the unsigned 32-bit values read from the file, so
+ * `encodeRec` writes them back bit-exactly. These helpers give the signed views used for display
+ * and editing: mouse coordinates are signed 32-bit (monitors left of or above the primary one are
+ * negative) and the wheel delta is the signed high word of `paramH`.
+ */
+
+/** One notch of a standard mouse wheel (`WHEEL_DELTA`). */
+export const WHEEL_DELTA = 120
+
+export interface MousePoint {
+  x: number
+  y: number
+}
+
+/** Reinterprets a stored uint32 as a signed 32-bit integer. */
+export const toSigned32 = (value: number) => value | 0
+
+/** Wraps any integer (including negative ones) into the uint32 range stored in events. */
+export const toUnsigned32 = (value: number) => (Number.isFinite(value) ? Math.trunc(value) >>> 0 : 0)
+
+export const decodeMousePoint = (event: Pick<EncodableEvent, 'paramL' | 'paramH'>): MousePoint => ({
+  x: toSigned32(event.paramL),
+  y: toSigned32(event.paramH),
+})
+
+export const encodeMousePoint = ({ x, y }: MousePoint): Pick<EncodableEvent, 'paramL' | 'paramH'> => ({
+  paramL: toUnsigned32(x),
+  paramH: toUnsigned32(y),
+})
+
+/** Signed wheel delta (multiples of {@link WHEEL_DELTA}) stored in the high word of `paramH`. */
+export const decodeWheelDelta = (paramH: number) => toSigned32(paramH) >> 16
+
+/** Replaces the high word of `paramH` with `delta`, keeping the low word untouched. */
+export const encodeWheelDelta = (delta: number, paramH = 0) =>
+  (((Math.trunc(delta) & 0xffff) << 16) | (paramH & 0xffff)) >>> 0
+
+/** Whole notches for a wheel event; partial deltas from precision touchpads count as one notch. */
+export const decodeWheelNotches = (paramH: number) => {
+  const delta = decodeWheelDelta(paramH)
+  return Math.round(delta / WHEEL_DELTA) || Math.sign(delta)
+}
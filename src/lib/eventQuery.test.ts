@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'vitest'
+
+import { encodeMousePoint } from './eventParams'
+import { compileEventQuery } from './eventQuery'
+
+const events = [
+  { message: 0x0200, ...encodeMousePoint({ x: 150, y: 60 }), delay: 0, time: 0, hwnd: 0x10 },
+  { message: 0x0201, ...encodeMousePoint({ x: 812, y: 455 }), delay: 600, time: 600, hwnd: 0x10 },
+  { message: 0x0100, paramL: 0x0d, paramH: 0, delay: 40, time: 640, hwnd: 0x1a2b },
+  { message: 0x0101, paramL: 0x41, paramH: 0, delay: 900, time: 61_540, hwnd: 0x1a2b },
+  { message: 0x0200, ...encodeMousePoint({ x: -20, y: 70 }), delay: 60_000, time: 121_540, hwnd: 0x10 },
+]
+
+const matches = (query: string) => {
+  const predicate = compileEventQuery(query)
+  return events.flatMap((event, index) => (!predicate || predicate(event) ? [index] : []))
+}
+
+describe('eventQuery', () => {
+  test('combines message words with field terms', () => {
+    expect(compileEventQuery('  ')).toBeNull()
+    expect(matches('keydown keyup')).toEqual([2, 3])
+    expect(matches('keyboard delay>500')).toEqual([3])
+    expect(matches('key=enter')).toEqual([2])
+    expect(matches('key A,Enter')).toEqual([2, 3])
+    expect(matches('mouse hwnd=0x10 delay <= 600')).toEqual([0, 1])
+  })
+
+  test('filters by time ranges and coordinate boxes', () => {
+    expect(matches('time 00:01:00..00:02:00')).toEqual([3])
+    expect(matches('time>=01:00')).toEqual([3, 4])
+    expect(matches('x 100..300 y 50..80')).toEqual([0])
+    expect(matches('x ..0')).toEqual([4])
+    expect(matches('click x=812')).toEqual([1])
+  })
+
+  test('reports unknown words and bad values', () => {
+    expect(() => compileEventQuery('jump')).toThrow('Unknown query term "jump".')
+    expect(() => compileEventQuery('delay>fast')).toThrow('"delay" expects a whole number')
+    expect(() => compileEventQuery('delay')).toThrow('"delay" needs a value.')
+  })
+})
@@ -0,0 +1,190 @@
+import { decodeMousePoint } from './eventParams'
+import { describeVirtualKey } from './keyCodes'
+import {
+  KEY_MESSAGES,
+  MESSAGE_LABELS,
+  MOUSE_BUTTON_CLICKS,
+  MOUSE_BUTTON_MESSAGES,
+  MOUSE_MESSAGES,
+  WM_MOUSEMOVE,
+  WM_MOUSEWHEEL,
+} from './messageCatalog'
+import type { EncodableEvent } from './recParser'
+
+/**
+ * Filter queries for the event table, e.g. `keydown key=Enter,Tab delay>500` or
+ * `click x 100..300 y 50..80 time 00:01:00..00:02:00 hwnd=0x1A2B`.
+ *
+ * Whitespace separates terms. Message words (`keydown`, `lbuttondown`, or groups such as
+ * `keyboard`, `buttons`, `click`, `wheel`) are alternatives: an event matches when it has any of
+ * them. Every field term must match as well:
+ *
+ * - `delay`, `time`, `x`, `y` take `>`, `>=`, `<`, `<=`, `=` or a range `a..b` (either end may be
+ *   left open); the space after the field name is optional.
+ * - `time` values are milliseconds or `[hh:]mm:ss[.mmm]`.
+ * - `x`/`y` only match mouse events; `key` only key events and takes names (`key=A,Enter`).
+ * - `hwnd` takes decimal or `0x` hex handles, comma-separated.
+ */
+
+type QueryEvent = EncodableEvent & { time: number }
+
+export type EventQueryPredicate = (event: QueryEvent) => boolean
+
+const FIELDS = ['delay', 'time', 'x', 'y', 'key', 'hwnd'] as const
+
+type QueryField = (typeof FIELDS)[number]
+
+/** A field name alone (`delay`) or followed by an operator (`delay>500`), never a longer word (`keydown`). */
+const FIELD_PATTERN = new RegExp(`^(${FIELDS.join('|')})(?:(>=|<=|=|>|<|:)(.*))?$`, 'i')
+const OPERATOR_PATTERN = /^(>=|<=|=|>|<|:)(.*)$/
+
+const MESSAGE_WORDS = new Map<string, number[]>([
+  ...Object.entries(MESSAGE_LABELS).map(
+    ([code, label]) => [label.replace(/^WM_/, '').toLowerCase(), [Number(code)]] as [string, number[]],
+  ),
+  ['keyboard', [...KEY_MESSAGES]],
+  ['keys', [...KEY_MESSAGES]],
+  ['mouse', [...MOUSE_MESSAGES, WM_MOUSEWHEEL]],
+  ['buttons', [...MOUSE_BUTTON_MESSAGES]],
+  ['click', Object.values(MOUSE_BUTTON_CLICKS).map(({ down }) => down)],
+  ['lclick', Object.values(MOUSE_BUTTON_CLICKS.left)],
+  ['rclick', Object.values(MOUSE_BUTTON_CLICKS.right)],
+  ['mclick', Object.values(MOUSE_BUTTON_CLICKS.middle)],
+  ['move', [WM_MOUSEMOVE]],
+  ['moves', [WM_MOUSEMOVE]],
+  ['wheel', [WM_MOUSEWHEEL]],
+])
+
+/** Every word the query accepts for message types, for hints and autocompletion. */
+export const QUERY_MESSAGE_WORDS = [...MESSAGE_WORDS.keys()]
+
+const normaliseKeyName = (name: string) => name.toLowerCase().replace(/[\s_]+/g, '')
+
+const parseInteger = (token: string, field: QueryField) => {
+  const value = /^-?0x[0-9a-f]+$/i.test(token) ? Number.parseInt(token, 16) : Number(token.replace(/ms$/i, ''))
+
+  if (!token || !Number.isInteger(value)) {
+    throw new Error(`"${field}" expects a whole number, got "${token}".`)
+  }
+
+  return value
+}
+
+/** Milliseconds from `1500`, `01:30`, `01:30.250` or `00:01:30`. */
+const parseTime = (token: string) => {
+  if (!token.includes(':')) {
+    return parseInteger(token, 'time')
+  }
+
+  const parts = token.split(':')
+  const seconds = Number(parts.pop())
+  const [hours, minutes] = parts.length === 2 ? parts.map(Number) : [0, Number(parts[0])]
+
+  if (parts.length > 2 || ![hours, minutes, seconds].every((value) => Number.isFinite(value) && value >= 0)) {
+    throw new Error(`"time" expects milliseconds or [hh:]mm:ss, got "${token}".`)
+  }
+
+  return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000)
+}
+
+const compareNumber = (operator: string, value: string, parse: (token: string) => number) => {
+  const range = /^(.*)\.\.(.*)$/.exec(value)
+
+  if (range) {
+    const min = range[1] ? parse(range[1]) : -Infinity
+    const max = range[2] ? parse(range[2]) : Infinity
+    return (candidate: number) => candidate >= min && candidate <= max
+  }
+
+  const target = parse(value)
+
+  switch (operator) {
+    case '>':
+      return (candidate: number) => candidate > target
+    case '>=':
+      return (candidate: number) => candidate >= target
+    case '<':
+      return (candidate: number) => candidate < target
+    case '<=':
+      return (candidate: number) => candidate <= target
+    default:
+      return (candidate: number) => candidate === target
+  }
+}
+
+const buildFieldPredicate = (field: QueryField, operator: string, value: string): EventQueryPredicate => {
+  switch (field) {
+    case 'delay': {
+      const test = compareNumber(operator, value, (token) => parseInteger(token, field))
+      return (event) => test(event.delay)
+    }
+    case 'time': {
+      const test = compareNumber(operator, value, parseTime)
+      return (event) => test(event.time)
+    }
+    case 'x':
+    case 'y': {
+      const test = compareNumber(operator, value, (token) => parseInteger(token, field))
+      return (event) => MOUSE_MESSAGES.has(event.message) && test(decodeMousePoint(event)[field])
+    }
+    case 'key': {
+      const names = new Set(value.split(',').filter(Boolean).map(normaliseKeyName))
+      return (event) =>
+        KEY_MESSAGES.has(event.message) && names.has(normaliseKeyName(describeVirtualKey(event.paramL & 0xff)))
+    }
+    case 'hwnd': {
+      const handles = new Set(value.split(',').filter(Boolean).map((token) => parseInteger(token, field) >>> 0))
+      return (event) => handles.has(event.hwnd)
+    }
+  }
+}
+
+/**
+ * Compiles a query into an event predicate; `null` for an empty query (everything matches).
+ * Throws with a readable message on unknown words or malformed values.
+ */
+export function compileEventQuery(text: string): EventQueryPredicate | null {
+  const tokens = text.trim().split(/\s+/).filter(Boolean)
+  const messages = new Set<number>()
+  const predicates: EventQueryPredicate[] = []
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index]
+    const field = FIELD_PATTERN.exec(token)
+
+    if (!field) {
+      const codes = MESSAGE_WORDS.get(token.toLowerCase())
+      if (!codes) {
+        throw new Error(`Unknown query term "${token}".`)
+      }
+      codes.forEach((code) => messages.add(code))
+      continue
+    }
+
+    let operator = field[2] ?? ''
+    let value = field[3] ?? ''
+
+    // Allow spaces around the operator: `delay > 500`, `time 00:01:00..00:02:00`.
+    const split = !operator && !value ? OPERATOR_PATTERN.exec(tokens[index + 1] ?? '') : null
+    if (split) {
+      operator = split[1]
+      value = split[2]
+      index += 1
+    }
+    if (!value && index + 1 < tokens.length) {
+      index += 1
+      value = tokens[index]
+    }
+    if (!value) {
+      throw new Error(`"${field[1]}" needs a value.`)
+    }
+
+    predicates.push(buildFieldPredicate(field[1].toLowerCase() as QueryField, operator, value))
+  }
+
+  if (messages.size) {
+    predicates.unshift((event) => messages.has(event.message))
+  }
+
+  return predicates.length ? (event) => predicates.every((predicate) => predicate(event)) : null
+}
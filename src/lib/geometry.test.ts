@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'vitest'
+
+import { isPointInPolygon, isPointInRect } from './geometry'
+
+describe('geometry', () => {
+  test('checks rectangles regardless of drag direction', () => {
+    expect(isPointInRect({ x: 5, y: 5 }, { x: 10, y: 10 }, { x: 0, y: 0 })).toBe(true)
+    expect(isPointInRect({ x: 10, y: 0 }, { x: 0, y: 0 }, { x: 10, y: 10 })).toBe(true)
+    expect(isPointInRect({ x: 11, y: 5 }, { x: 0, y: 0 }, { x: 10, y: 10 })).toBe(false)
+  })
+
+  test('checks concave lassos', () => {
+    // A "U" shape: the notch between the arms is outside.
+    const lasso = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 7, y: 10 },
+      { x: 7, y: 3 },
+      { x: 3, y: 3 },
+      { x: 3, y: 10 },
+      { x: 0, y: 10 },
+    ]
+
+    expect(isPointInPolygon({ x: 1, y: 8 }, lasso)).toBe(true)
+    expect(isPointInPolygon({ x: 5, y: 8 }, lasso)).toBe(false)
+    expect(isPointInPolygon({ x: 5, y: 1 }, lasso)).toBe(true)
+    expect(isPointInPolygon({ x: 5, y: 5 }, [])).toBe(false)
+  })
+})
@@ -0,0 +1,24 @@
+import type { MousePoint } from './eventParams'
+
+/** Whether `point` lies in the axis-aligned rectangle spanned by two opposite corners (edges included). */
+export const isPointInRect = (point: MousePoint, corner: MousePoint, opposite: MousePoint) =>
+  point.x >= Math.min(corner.x, opposite.x) &&
+  point.x <= Math.max(corner.x, opposite.x) &&
+  point.y >= Math.min(corner.y, opposite.y) &&
+  point.y <= Math.max(corner.y, opposite.y)
+
+/** Even-odd ray casting; the polygon is closed implicitly and may self-intersect (free-hand lassos). */
+export const isPointInPolygon = (point: MousePoint, polygon: MousePoint[]) => {
+  let inside = false
+
+  for (let index = 0, previous = polygon.length - 1; index < polygon.length; previous = index, index += 1) {
+    const a = polygon[index]
+    const b = polygon[previous]
+
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+
+  return inside
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'vitest'
+
+import { applyInsertions, findInputBalanceIssues, planReleases } from './inputBalance'
+
+const event = (message: number, paramL = 0, paramH = 0, delay = 10) => ({ message, paramL, paramH, delay, hwnd: 1 })
+
+describe('inputBalance', () => {
+  test('flags unreleased presses and orphan releases, mixing SYS and plain key messages', () => {
+    const events = [
+      event(0x0101, 0x41),
+      event(0x0104, 0x12),
+      event(0x0100, 0x09),
+      event(0x0100, 0x09),
+      event(0x0101, 0x12),
+      event(0x0201, 50, 60),
+      event(0x0200, 70, 80),
+    ]
+
+    expect(findInputBalanceIssues(events)).toEqual([
+      { kind: 'orphanRelease', input: { kind: 'key', code: 0x41 }, releaseIndex: 0 },
+      { kind: 'unreleased', input: { kind: 'key', code: 0x09 }, pressIndex: 2, cutIndex: 4 },
+      { kind: 'unreleased', input: { kind: 'button', button: 'left' }, pressIndex: 5, cutIndex: 6 },
+    ])
+  })
+
+  test('inserts releases at the cut point or at the end', () => {
+    const events = [event(0x0100, 0x11), event(0x0100, 0x41), event(0x0201, 5, 6), event(0x0200, 7, 8)]
+    const issues = findInputBalanceIssues(events)
+
+    const atEnd = applyInsertions(events, planReleases(events, issues, 'end'))
+    expect(atEnd.slice(4).map((entry) => [entry.message, entry.paramL, entry.paramH])).toEqual([
+      [0x0202, 7, 8],
+      [0x0101, 0x41, 0],
+      [0x0101, 0x11, 0],
+    ])
+    expect(findInputBalanceIssues(atEnd)).toEqual([])
+
+    const atCut = applyInsertions(events, planReleases(events, issues, 'cut'))
+    expect(atCut.map((entry) => entry.message)).toEqual([0x0100, 0x0101, 0x0100, 0x0101, 0x0201, 0x0202, 0x0200])
+    expect(atCut[5]).toMatchObject({ paramL: 5, paramH: 6, delay: 0 })
+  })
+})
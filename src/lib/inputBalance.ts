@@ -0,0 +1,147 @@
+import { decodeMousePoint, encodeMousePoint } from './eventParams'
+import { KEY_MESSAGES, MOUSE_BUTTON_ACTIONS, MOUSE_MESSAGES, isKeyDownMessage, type MouseButton } from './messageCatalog'
+import type { EncodableEvent } from './recParser'
+
+export type TrackedInput = { kind: 'key'; code: number } | { kind: 'button'; button: MouseButton }
+
+export type InputBalanceIssue =
+  | {
+      kind: 'unreleased'
+      input: TrackedInput
+      /** Index of the first press that is never released. */
+      pressIndex: number
+      /**
+       * Where the release most likely got cut away: right after the last press of the same input
+       * (the last auto-repeat for keys), before anything else happened while it was held.
+       */
+      cutIndex: number
+    }
+  | {
+      kind: 'orphanRelease'
+      input: TrackedInput
+      /** Index of the release that has no matching press. */
+      releaseIndex: number
+    }
+
+export type ReleasePlacement = 'end' | 'cut'
+
+export interface PlannedInsertion<T> {
+  /** Index in the original timeline the event is inserted before (`length` appends). */
+  index: number
+  event: T
+}
+
+const inputKey = (input: TrackedInput) => (input.kind === 'key' ? `key:${input.code}` : `button:${input.button}`)
+
+const toTrackedInput = (event: EncodableEvent): { input: TrackedInput; down: boolean } | null => {
+  if (KEY_MESSAGES.has(event.message)) {
+    return { input: { kind: 'key', code: event.paramL & 0xff }, down: isKeyDownMessage(event.message) }
+  }
+
+  const action = MOUSE_BUTTON_ACTIONS[event.message]
+  if (action) {
+    return { input: { kind: 'button', button: action.button }, down: action.down }
+  }
+
+  return null
+}
+
+const issueIndex = (issue: InputBalanceIssue) => (issue.kind === 'unreleased' ? issue.pressIndex : issue.releaseIndex)
+
+/**
+ * Walks the timeline tracking which keys and mouse buttons are held, and reports every press that
+ * is never released and every release without a press. `WM_KEYDOWN`/`WM_SYSKEYDOWN` and
+ * `WM_KEYUP`/`WM_SYSKEYUP` are treated as the same key state, since Windows mixes them for Alt combos.
+ */
+export function findInputBalanceIssues(events: EncodableEvent[]): InputBalanceIssue[] {
+  const held = new Map<string, { input: TrackedInput; pressIndex: number; lastPressIndex: number }>()
+  const issues: InputBalanceIssue[] = []
+
+  events.forEach((event, index) => {
+    const tracked = toTrackedInput(event)
+    if (!tracked) {
+      return
+    }
+
+    const key = inputKey(tracked.input)
+    const state = held.get(key)
+
+    if (tracked.down) {
+      if (state) {
+        state.lastPressIndex = index
+      } else {
+        held.set(key, { input: tracked.input, pressIndex: index, lastPressIndex: index })
+      }
+      return
+    }
+
+    if (state) {
+      held.delete(key)
+    } else {
+      issues.push({ kind: 'orphanRelease', input: tracked.input, releaseIndex: index })
+    }
+  })
+
+  held.forEach(({ input, pressIndex, lastPressIndex }) => {
+    issues.push({ kind: 'unreleased', input, pressIndex, cutIndex: lastPressIndex + 1 })
+  })
+
+  return issues.sort((a, b) => issueIndex(a) - issueIndex(b))
+}
+
+const lastMousePosition = (events: EncodableEvent[], beforeIndex: number, fallback: EncodableEvent) => {
+  for (let index = beforeIndex - 1; index >= 0; index -= 1) {
+    if (MOUSE_MESSAGES.has(events[index].message)) {
+      return decodeMousePoint(events[index])
+    }
+  }
+
+  return decodeMousePoint(fallback)
+}
+
+/**
+ * Builds the release events that close the given unreleased presses, with zero delay. Releases
+ * sharing an insertion point are ordered last-pressed-first, so `Ctrl+A` lets go of `A` before `Ctrl`.
+ */
+export function planReleases(
+  events: EncodableEvent[],
+  issues: InputBalanceIssue[],
+  placement: ReleasePlacement,
+): PlannedInsertion<EncodableEvent>[] {
+  return issues
+    .flatMap((issue) => (issue.kind === 'unreleased' ? [issue] : []))
+    .sort((a, b) => b.pressIndex - a.pressIndex)
+    .map((issue) => {
+      const press = events[issue.pressIndex]
+      const index = placement === 'end' ? events.length : issue.cutIndex
+      const { paramL, paramH } =
+        issue.input.kind === 'key' ? press : encodeMousePoint(lastMousePosition(events, index, press))
+
+      return {
+        index,
+        event: { message: press.message + 1, paramL, paramH, delay: 0, hwnd: press.hwnd },
+      }
+    })
+    .sort((a, b) => a.index - b.index)
+}
+
+/** Inserts planned events into the timeline; insertions sharing an index keep their relative order. */
+export function applyInsertions<T>(events: T[], insertions: PlannedInsertion<T>[]): T[] {
+  if (!insertions.length) {
+    return events
+  }
+
+  const byIndex = new Map<number, T[]>()
+  insertions.forEach(({ index, event }) => {
+    const clamped = Math.max(0, Math.min(index, events.length))
+    byIndex.set(clamped, [...(byIndex.get(clamped) ?? []), event])
+  })
+
+  const next: T[] = []
+  events.forEach((event, index) => {
+    next.push(...(byIndex.get(index) ?? []), event)
+  })
+  next.push(...(byIndex.get(events.length) ?? []))
+
+  return next
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest'
+
+import { buildChordEvents, chordModifierForKey, formatChord } from './keyChord'
+
+const steps = (events: ReturnType<typeof buildChordEvents>) => events.map((event) => [event.message, event.paramL])
+
+describe('keyChord', () => {
+  test('presses modifiers in order and releases them in reverse', () => {
+    const chord = { modifiers: { shift: true, ctrl: true }, key: 0x53 }
+    const events = buildChordEvents(chord, { stepDelay: 20, hwnd: 3 })
+
+    expect(formatChord(chord)).toBe('Ctrl+Shift+S')
+    expect(steps(events)).toEqual([
+      [0x0100, 0x11],
+      [0x0100, 0x10],
+      [0x0100, 0x53],
+      [0x0101, 0x53],
+      [0x0101, 0x10],
+      [0x0101, 0x11],
+    ])
+    expect(events.map((event) => event.delay)).toEqual([0, 20, 20, 20, 20, 20])
+    expect(events.every((event) => event.hwnd === 3)).toBe(true)
+  })
+
+  test('uses system key messages for Alt combinations without Ctrl', () => {
+    expect(steps(buildChordEvents({ modifiers: { alt: true, shift: true }, key: 0x09 }))).toEqual([
+      [0x0104, 0x12],
+      [0x0104, 0x10],
+      [0x0104, 0x09],
+      [0x0105, 0x09],
+      [0x0105, 0x10],
+      [0x0101, 0x12],
+    ])
+    expect(steps(buildChordEvents({ modifiers: { ctrl: true, alt: true }, key: 0x2e })).map(([message]) => message)).toEqual([
+      0x0100, 0x0100, 0x0100, 0x0101, 0x0101, 0x0101,
+    ])
+    expect(steps(buildChordEvents({ modifiers: {}, key: 0x79 }))).toEqual([
+      [0x0104, 0x79],
+      [0x0105, 0x79],
+    ])
+  })
+
+  test('recognises left and right modifier keys', () => {
+    expect(chordModifierForKey(0xa1)).toBe('shift')
+    expect(chordModifierForKey(0x12)).toBe('alt')
+    expect(chordModifierForKey(0x41)).toBeUndefined()
+  })
+})
@@ -0,0 +1,94 @@
+import { describeVirtualKey } from './keyCodes'
+import { WM_KEYDOWN, WM_KEYUP, WM_SYSKEYDOWN, WM_SYSKEYUP } from './messageCatalog'
+import type { EncodableEvent } from './recParser'
+import { sanitizeDelay } from './transforms'
+
+const VK_F10 = 0x79
+
+export type ChordModifier = 'ctrl' | 'alt' | 'shift' | 'win'
+
+/** Modifier keys in the order they are pressed; they are released in reverse. */
+export const CHORD_MODIFIERS: Array<{ id: ChordModifier; virtualKey: number; label: string }> = [
+  { id: 'ctrl', virtualKey: 0x11, label: 'Ctrl' },
+  { id: 'alt', virtualKey: 0x12, label: 'Alt' },
+  { id: 'shift', virtualKey: 0x10, label: 'Shift' },
+  { id: 'win', virtualKey: 0x5b, label: 'Win' },
+]
+
+export interface KeyChord {
+  modifiers: Partial<Record<ChordModifier, boolean>>
+  key: number
+}
+
+const MODIFIER_BY_KEY = new Map(CHORD_MODIFIERS.map((modifier) => [modifier.virtualKey, modifier.id]))
+
+/** The modifier a virtual-key code stands for (generic, left or right variant), if any. */
+export const chordModifierForKey = (virtualKey: number): ChordModifier | undefined => {
+  switch (virtualKey) {
+    case 0xa0:
+    case 0xa1:
+      return 'shift'
+    case 0xa2:
+    case 0xa3:
+      return 'ctrl'
+    case 0xa4:
+    case 0xa5:
+      return 'alt'
+    case 0x5c:
+      return 'win'
+    default:
+      return MODIFIER_BY_KEY.get(virtualKey)
+  }
+}
+
+export const formatChord = (chord: KeyChord) =>
+  [
+    ...CHORD_MODIFIERS.filter((modifier) => chord.modifiers[modifier.id]).map((modifier) => modifier.label),
+    describeVirtualKey(chord.key),
+  ].join('+')
+
+export interface ChordOptions {
+  /** Delay (ms) before every event after the first. */
+  stepDelay?: number
+  hwnd?: number
+}
+
+/**
+ * Emits modifier downs, the key down/up and the modifier ups in reverse order.
+ *
+ * Like Windows, keys pressed or released while Alt is held without Ctrl (and a lone F10) use
+ * `WM_SYSKEYDOWN`/`WM_SYSKEYUP`; releasing Alt itself is a plain `WM_KEYUP`.
+ */
+export function buildChordEvents(chord: KeyChord, options: ChordOptions = {}): EncodableEvent[] {
+  const stepDelay = sanitizeDelay(options.stepDelay ?? 0)
+  const hwnd = options.hwnd ?? 0
+  const modifiers = CHORD_MODIFIERS.filter(
+    (modifier) => chord.modifiers[modifier.id] && modifier.virtualKey !== chord.key,
+  )
+  const held = new Set<ChordModifier>()
+  const events: EncodableEvent[] = []
+
+  const isSystem = (virtualKey: number) =>
+    (held.has('alt') && !held.has('ctrl')) || (virtualKey === VK_F10 && !held.size)
+
+  const push = (down: boolean, virtualKey: number) => {
+    const system = isSystem(virtualKey)
+    const message = down ? (system ? WM_SYSKEYDOWN : WM_KEYDOWN) : system ? WM_SYSKEYUP : WM_KEYUP
+    events.push({ message, paramL: virtualKey, paramH: 0, delay: events.length ? stepDelay : 0, hwnd })
+  }
+
+  modifiers.forEach((modifier) => {
+    held.add(modifier.id)
+    push(true, modifier.virtualKey)
+  })
+
+  push(true, chord.key)
+  push(false, chord.key)
+
+  modifiers.reverse().forEach((modifier) => {
+    held.delete(modifier.id)
+    push(false, modifier.virtualKey)
+  })
+
+  return events
+}
@@ -91,6 +91,11 @@ const VIRTUAL_KEYS: Record<number, string> = {
   0x91: 'Scroll Lock',
 }
 
+/** Virtual-key codes with a readable label, in ascending order (used by key pickers). */
+export const VIRTUAL_KEY_CODES: number[] = Object.keys(VIRTUAL_KEYS)
+  .map(Number)
+  .sort((a, b) => a - b)
+
 const lookupVirtualKey = (code: number): string | undefined => {
   if (VIRTUAL_KEYS[code]) {
     return VIRTUAL_KEYS[code]
@@ -121,3 +126,20 @@ export const describeVirtualKey = (code: number): string => {
   return `VK_${fallback.toString(16).toUpperCase().padStart(2, '0')}`
 }
 
+/**
+ * Translates a virtual-key code into another tool's key name, using the readable label as the lookup key.
+ * Letters and digits without an explicit entry map to their lowercase character.
+ */
+export const mapVirtualKey = (code: number, names: Record<string, string>): string | undefined => {
+  const label = describeVirtualKey(code)
+
+  if (names[label]) {
+    return names[label]
+  }
+
+  if (/^[A-Z0-9]$/.test(label)) {
+    return label.toLowerCase()
+  }
+
+  return undefined
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest'
+
+import { DEFAULT_LINT_CONFIG, lintMacro } from './macroLint'
+
+const event = (message: number, delay: number, paramL = 100, paramH = 100, hwnd = 1) => ({
+  message,
+  paramL,
+  paramH,
+  delay,
+  hwnd,
+})
+
+describe('macroLint', () => {
+  const events = [
+    event(0x0200, 0),
+    event(0x0201, 0, 0, 0),
+    event(0x0202, 50, 0, 0),
+    event(0x0200, 45_000),
+    event(0x0100, 10, 0x41, 0, 2),
+    event(0x0999, 10),
+  ]
+
+  test('reports findings of every enabled rule in timeline order', () => {
+    expect(lintMacro(events)).toEqual([
+      { rule: 'zeroDelayClick', index: 1, value: 0 },
+      { rule: 'originClick', index: 1, value: 0 },
+      { rule: 'longIdleGap', index: 3, value: 45_000 },
+      { rule: 'mixedHwnd', index: 4, value: 2 },
+      { rule: 'unknownMessage', index: 5, value: 0x0999 },
+    ])
+  })
+
+  test('honours disabled rules and custom thresholds', () => {
+    const findings = lintMacro(events, {
+      ...DEFAULT_LINT_CONFIG,
+      zeroDelayClick: { enabled: true, threshold: 60 },
+      longIdleGap: { enabled: true, threshold: 60_000 },
+      mixedHwnd: { enabled: false },
+      unknownMessage: { enabled: false },
+    })
+
+    expect(findings.map(({ rule, index }) => [rule, index])).toEqual([
+      ['zeroDelayClick', 1],
+      ['originClick', 1],
+      ['zeroDelayClick', 2],
+    ])
+  })
+})
@@ -0,0 +1,93 @@
+import { decodeMousePoint } from './eventParams'
+import { MESSAGE_LABELS, MOUSE_BUTTON_ACTIONS } from './messageCatalog'
+import type { EncodableEvent } from './recParser'
+import { mostCommonHwnd } from './transforms'
+
+export type LintRuleId = 'zeroDelayClick' | 'longIdleGap' | 'originClick' | 'mixedHwnd' | 'unknownMessage'
+
+export interface LintRuleConfig {
+  enabled: boolean
+  /** Rule-specific limit; rules without a threshold ignore it. */
+  threshold?: number
+}
+
+export type LintConfig = Record<LintRuleId, LintRuleConfig>
+
+export interface LintFinding {
+  rule: LintRuleId
+  /** Index of the offending event. */
+  index: number
+  /** The value that triggered the rule (delay, distance, window handle or message code). */
+  value: number
+}
+
+interface LintRule {
+  /** Default threshold, or `undefined` for rules that are not configurable. */
+  defaultThreshold?: number
+  check: (events: EncodableEvent[], threshold: number) => Array<Omit<LintFinding, 'rule'>>
+}
+
+/** The rule registry; add an entry here (and its strings in the UI) to introduce a new rule. */
+export const LINT_RULES: Record<LintRuleId, LintRule> = {
+  /** Button presses/releases arriving faster than the target app can register them. */
+  zeroDelayClick: {
+    defaultThreshold: 1,
+    check: (events, minDelay) =>
+      events.flatMap((event, index) =>
+        index > 0 && MOUSE_BUTTON_ACTIONS[event.message] && event.delay < minDelay
+          ? [{ index, value: event.delay }]
+          : [],
+      ),
+  },
+  /** Pauses long enough to look like an accidental idle period during recording. */
+  longIdleGap: {
+    defaultThreshold: 30_000,
+    check: (events, maxDelay) =>
+      events.flatMap((event, index) => (index > 0 && event.delay >= maxDelay ? [{ index, value: event.delay }] : [])),
+  },
+  /** Clicks in the top-left corner, typically inserted by "Add action" and never positioned. */
+  originClick: {
+    defaultThreshold: 0,
+    check: (events, radius) =>
+      events.flatMap((event, index) => {
+        if (!MOUSE_BUTTON_ACTIONS[event.message]?.down) {
+          return []
+        }
+
+        const { x, y } = decodeMousePoint(event)
+        const distance = Math.hypot(x, y)
+        return distance <= radius ? [{ index, value: distance }] : []
+      }),
+  },
+  /** Events sent to a different window than the rest of the macro. */
+  mixedHwnd: {
+    check: (events) => {
+      const dominant = mostCommonHwnd(events)
+      return events.flatMap((event, index) => (event.hwnd !== dominant ? [{ index, value: event.hwnd }] : []))
+    },
+  },
+  /** Message codes the editor (and usually TinyTask) does not know how to replay. */
+  unknownMessage: {
+    check: (events) =>
+      events.flatMap((event, index) => (MESSAGE_LABELS[event.message] ? [] : [{ index, value: event.message }])),
+  },
+}
+
+export const LINT_RULE_IDS = Object.keys(LINT_RULES) as LintRuleId[]
+
+export const DEFAULT_LINT_CONFIG = Object.fromEntries(
+  LINT_RULE_IDS.map((id) => [id, { enabled: true, threshold: LINT_RULES[id].defaultThreshold }]),
+) as LintConfig
+
+/** Runs every enabled rule and returns the findings ordered by event index. */
+export function lintMacro(events: EncodableEvent[], config: LintConfig = DEFAULT_LINT_CONFIG): LintFinding[] {
+  return LINT_RULE_IDS.flatMap((rule) => {
+    const ruleConfig = config[rule]
+    if (!ruleConfig?.enabled) {
+      return []
+    }
+
+    const threshold = ruleConfig.threshold ?? LINT_RULES[rule].defaultThreshold ?? 0
+    return LINT_RULES[rule].check(events, threshold).map((finding) => ({ rule, ...finding }))
+  }).sort((a, b) => a.index - b.index)
+}
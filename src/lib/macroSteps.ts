@@ -0,0 +1,129 @@
+import { decodeMousePoint, decodeWheelNotches } from './eventParams'
+import {
+  KEY_MESSAGES,
+  MOUSE_BUTTON_ACTIONS,
+  WM_MOUSEMOVE,
+  WM_MOUSEWHEEL,
+  isKeyDownMessage,
+  type MouseButton,
+} from './messageCatalog'
+import type { EncodableEvent } from './recParser'
+
+/** Script-agnostic action produced from a recorded timeline, consumed by the script exporters. */
+export type MacroStep =
+  | { kind: 'sleep'; ms: number }
+  | { kind: 'move'; x: number; y: number }
+  | { kind: 'click'; button: MouseButton; x: number; y: number }
+  | { kind: 'buttonDown' | 'buttonUp'; button: MouseButton; x: number; y: number }
+  | { kind: 'keyPress' | 'keyDown' | 'keyUp'; code: number }
+  | { kind: 'wheel'; notches: number }
+  | { kind: 'unsupported'; message: number; paramL: number; paramH: number }
+
+export interface MacroStepOptions {
+  /** Collapse a down immediately followed by its matching up into a single click or key press. */
+  mergePairs?: boolean
+  /** Longest hold (ms) between a down and its up that may still be merged. */
+  maxMergeHold?: number
+  /** Mouse moves closer than this many pixels to the previous cursor position are dropped. */
+  minMoveDistance?: number
+}
+
+const DEFAULT_MAX_MERGE_HOLD = 100
+const isMatchingRelease = (down: EncodableEvent, next: EncodableEvent | undefined, maxHold: number) => {
+  if (!next || next.delay > maxHold) {
+    return false
+  }
+
+  if (KEY_MESSAGES.has(down.message)) {
+    return next.message === down.message + 1 && (next.paramL & 0xff) === (down.paramL & 0xff)
+  }
+
+  const downAction = MOUSE_BUTTON_ACTIONS[down.message]
+  const upAction = MOUSE_BUTTON_ACTIONS[next.message]
+
+  return Boolean(
+    downAction &&
+      upAction &&
+      !upAction.down &&
+      upAction.button === downAction.button &&
+      next.paramL === down.paramL &&
+      next.paramH === down.paramH,
+  )
+}
+
+export function buildMacroSteps(events: EncodableEvent[], options: MacroStepOptions = {}): MacroStep[] {
+  const mergePairs = options.mergePairs ?? true
+  const maxMergeHold = options.maxMergeHold ?? DEFAULT_MAX_MERGE_HOLD
+  const minMoveDistance = Math.max(0, options.minMoveDistance ?? 0)
+
+  const steps: MacroStep[] = []
+  let pendingSleep = 0
+  let cursor: { x: number; y: number } | undefined
+
+  const emit = (step: MacroStep) => {
+    if (pendingSleep > 0) {
+      steps.push({ kind: 'sleep', ms: pendingSleep })
+      pendingSleep = 0
+    }
+    steps.push(step)
+  }
+
+  for (let index = 0; index < events.length; index += 1) {
+    const event = events[index]
+    pendingSleep += index === 0 ? 0 : Math.max(0, event.delay)
+
+    const { x, y } = decodeMousePoint(event)
+
+    if (event.message === WM_MOUSEMOVE) {
+      if (cursor && Math.hypot(x - cursor.x, y - cursor.y) < minMoveDistance) {
+        continue
+      }
+
+      cursor = { x, y }
+      emit({ kind: 'move', x, y })
+      continue
+    }
+
+    const buttonAction = MOUSE_BUTTON_ACTIONS[event.message]
+    if (buttonAction) {
+      cursor = { x, y }
+
+      if (buttonAction.down && mergePairs && isMatchingRelease(event, events[index + 1], maxMergeHold)) {
+        emit({ kind: 'click', button: buttonAction.button, x, y })
+        index += 1
+        pendingSleep += Math.max(0, events[index].delay)
+        continue
+      }
+
+      emit({ kind: buttonAction.down ? 'buttonDown' : 'buttonUp', button: buttonAction.button, x, y })
+      continue
+    }
+
+    if (KEY_MESSAGES.has(event.message)) {
+      const code = event.paramL & 0xff
+
+      if (isKeyDownMessage(event.message)) {
+        if (mergePairs && isMatchingRelease(event, events[index + 1], maxMergeHold)) {
+          emit({ kind: 'keyPress', code })
+          index += 1
+          pendingSleep += Math.max(0, events[index].delay)
+          continue
+        }
+
+        emit({ kind: 'keyDown', code })
+      } else {
+        emit({ kind: 'keyUp', code })
+      }
+      continue
+    }
+
+    if (event.message === WM_MOUSEWHEEL) {
+      emit({ kind: 'wheel', notches: decodeWheelNotches(event.paramH) })
+      continue
+    }
+
+    emit({ kind: 'unsupported', message: event.message, paramL: event.paramL, paramH: event.paramH })
+  }
+
+  return steps
+}
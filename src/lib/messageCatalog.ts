@@ -1,18 +1,51 @@
+export const WM_KEYDOWN = 0x0100
+export const WM_KEYUP = 0x0101
+export const WM_SYSKEYDOWN = 0x0104
+export const WM_SYSKEYUP = 0x0105
+export const WM_MOUSEMOVE = 0x0200
+export const WM_MOUSEWHEEL = 0x020a
+
 export const MESSAGE_LABELS: Record<number, string> = {
-  0x0100: 'WM_KEYDOWN',
-  0x0101: 'WM_KEYUP',
-  0x0104: 'WM_SYSKEYDOWN',
-  0x0105: 'WM_SYSKEYUP',
-  0x0200: 'WM_MOUSEMOVE',
+  [WM_KEYDOWN]: 'WM_KEYDOWN',
+  [WM_KEYUP]: 'WM_KEYUP',
+  [WM_SYSKEYDOWN]: 'WM_SYSKEYDOWN',
+  [WM_SYSKEYUP]: 'WM_SYSKEYUP',
+  [WM_MOUSEMOVE]: 'WM_MOUSEMOVE',
   0x0201: 'WM_LBUTTONDOWN',
   0x0202: 'WM_LBUTTONUP',
   0x0204: 'WM_RBUTTONDOWN',
   0x0205: 'WM_RBUTTONUP',
   0x0207: 'WM_MBUTTONDOWN',
   0x0208: 'WM_MBUTTONUP',
-  0x020a: 'WM_MOUSEWHEEL',
+  [WM_MOUSEWHEEL]: 'WM_MOUSEWHEEL',
 }
 
 export const formatMessageLabel = (message: number) =>
   MESSAGE_LABELS[message] ?? 'UNKNOWN'
 
+export const MOUSE_MESSAGES = new Set([WM_MOUSEMOVE, 0x0201, 0x0202, 0x0204, 0x0205, 0x0207, 0x0208])
+export const MOUSE_BUTTON_MESSAGES = new Set([0x0201, 0x0202, 0x0204, 0x0205, 0x0207, 0x0208])
+export const KEY_MESSAGES = new Set([WM_KEYDOWN, WM_KEYUP, WM_SYSKEYDOWN, WM_SYSKEYUP])
+
+export const isKeyDownMessage = (message: number) => message === WM_KEYDOWN || message === WM_SYSKEYDOWN
+
+export type MouseButton = 'left' | 'right' | 'middle'
+
+/** Maps button down/up messages to the button and direction they represent. */
+export const MOUSE_BUTTON_ACTIONS: Record<number, { button: MouseButton; down: boolean }> = {
+  0x0201: { button: 'left', down: true },
+  0x0202: { button: 'left', down: false },
+  0x0204: { button: 'right', down: true },
+  0x0205: { button: 'right', down: false },
+  0x0207: { button: 'middle', down: true },
+  0x0208: { button: 'middle', down: false },
+}
+
+/** Down/up messages of each button, the inverse of `MOUSE_BUTTON_ACTIONS`. */
+export const MOUSE_BUTTON_CLICKS = Object.entries(MOUSE_BUTTON_ACTIONS).reduce(
+  (clicks, [code, { button, down }]) => ({
+    ...clicks,
+    [button]: { ...clicks[button], [down ? 'down' : 'up']: Number(code) },
+  }),
+  {} as Record<MouseButton, { down: number; up: number }>,
+)
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest'
+
+import { decodeMousePoint, decodeWheelDelta } from './eventParams'
+import { buildMousePath, buildWheelEvents, findCursorPosition } from './mousePath'
+
+describe('mousePath', () => {
+  test('samples a linear path whose delays add up to the duration', () => {
+    const path = buildMousePath({ x: 0, y: 0 }, { x: 100, y: -50 }, { duration: 100, sampleRate: 40 })
+
+    expect(path.map((event) => decodeMousePoint(event))).toEqual([
+      { x: 25, y: -12 },
+      { x: 50, y: -25 },
+      { x: 75, y: -37 },
+      { x: 100, y: -50 },
+    ])
+    expect(path.map((event) => event.delay)).toEqual([25, 25, 25, 25])
+  })
+
+  test('bends bezier paths, eases eased ones and ends with an optional click', () => {
+    const from = { x: 0, y: 0 }
+    const to = { x: 100, y: 0 }
+    const bezier = buildMousePath(from, to, {
+      curve: 'bezier',
+      duration: 100,
+      sampleRate: 20,
+      click: 'right',
+      clickHold: 30,
+    })
+    const eased = buildMousePath(from, to, { curve: 'eased', duration: 100, sampleRate: 50 })
+
+    expect(decodeMousePoint(bezier[0]).y).toBeGreaterThan(0)
+    expect(decodeMousePoint(eased[0]).x).toBeLessThan(10)
+    expect(bezier.slice(-2).map((event) => [event.message, event.delay, decodeMousePoint(event).x])).toEqual([
+      [0x0204, 50, 100],
+      [0x0205, 30, 100],
+    ])
+  })
+
+  test('finds the cursor before an index and builds wheel notches', () => {
+    const events = [
+      { message: 0x0200, paramL: 10, paramH: 20, delay: 0, hwnd: 0 },
+      { message: 0x0100, paramL: 0x41, paramH: 0, delay: 5, hwnd: 0 },
+    ]
+
+    expect(findCursorPosition(events, 2)).toEqual({ x: 10, y: 20 })
+    expect(findCursorPosition(events, 0)).toBeUndefined()
+
+    const wheel = buildWheelEvents(-2, { notchDelay: 40 })
+    expect(wheel.map((event) => [event.message, decodeWheelDelta(event.paramH), event.delay])).toEqual([
+      [0x020a, -120, 0],
+      [0x020a, -120, 40],
+    ])
+  })
+})
@@ -0,0 +1,127 @@
+import { WHEEL_DELTA, decodeMousePoint, encodeMousePoint, encodeWheelDelta, type MousePoint } from './eventParams'
+import {
+  MOUSE_BUTTON_CLICKS,
+  MOUSE_MESSAGES,
+  WM_MOUSEMOVE,
+  WM_MOUSEWHEEL,
+  type MouseButton,
+} from './messageCatalog'
+import type { EncodableEvent } from './recParser'
+import { sanitizeDelay } from './transforms'
+
+export type MousePathCurve = 'linear' | 'eased' | 'bezier'
+
+export const MOUSE_PATH_CURVES: MousePathCurve[] = ['linear', 'eased', 'bezier']
+
+/** How far the Bezier control points bow out, as a share of the straight distance. */
+const BEZIER_BEND = 0.25
+
+export interface MousePathOptions {
+  curve?: MousePathCurve
+  /** Time (ms) from the start point to the target. */
+  duration?: number
+  /** Move events per second. */
+  sampleRate?: number
+  /** Button clicked at the target once the cursor arrives. */
+  click?: MouseButton
+  /** Delay (ms) between the click's down and up. */
+  clickHold?: number
+  hwnd?: number
+}
+
+/** Where the cursor is before `index`: the last mouse event earlier in the timeline, if any. */
+export const findCursorPosition = (events: EncodableEvent[], index: number): MousePoint | undefined => {
+  for (let current = Math.min(index, events.length) - 1; current >= 0; current -= 1) {
+    if (MOUSE_MESSAGES.has(events[current].message)) {
+      return decodeMousePoint(events[current])
+    }
+  }
+
+  return undefined
+}
+
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2)
+
+const cubicBezier = (from: MousePoint, to: MousePoint, t: number): MousePoint => {
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  // Both control points sit on the same side of the line, so the path is a gentle arc.
+  const normal = { x: -dy * BEZIER_BEND, y: dx * BEZIER_BEND }
+  const c1 = { x: from.x + dx / 3 + normal.x, y: from.y + dy / 3 + normal.y }
+  const c2 = { x: from.x + (dx * 2) / 3 + normal.x, y: from.y + (dy * 2) / 3 + normal.y }
+  const u = 1 - t
+
+  return {
+    x: u ** 3 * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t ** 3 * to.x,
+    y: u ** 3 * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t ** 3 * to.y,
+  }
+}
+
+const pointAt = (from: MousePoint, to: MousePoint, t: number, curve: MousePathCurve): MousePoint => {
+  if (curve === 'bezier') {
+    return cubicBezier(from, to, t)
+  }
+
+  const progress = curve === 'eased' ? easeInOut(t) : t
+  return { x: from.x + (to.x - from.x) * progress, y: from.y + (to.y - from.y) * progress }
+}
+
+/**
+ * Builds the `WM_MOUSEMOVE` samples that carry the cursor from `from` to `to` (the start point
+ * itself is not emitted) and, optionally, a click at the target. Delays add up to `duration`;
+ * the first move's delay is one sample interval.
+ */
+export function buildMousePath(from: MousePoint, to: MousePoint, options: MousePathOptions = {}): EncodableEvent[] {
+  const curve = options.curve ?? 'linear'
+  const duration = sanitizeDelay(options.duration ?? 0)
+  const sampleRate = Math.max(1, options.sampleRate ?? 60)
+  const steps = Math.max(1, Math.round((duration * sampleRate) / 1000))
+  const hwnd = options.hwnd ?? 0
+  const events: EncodableEvent[] = []
+  let elapsed = 0
+
+  for (let step = 1; step <= steps; step += 1) {
+    const t = step / steps
+    const time = Math.round(duration * t)
+    const point = step === steps ? to : pointAt(from, to, t, curve)
+
+    events.push({
+      message: WM_MOUSEMOVE,
+      ...encodeMousePoint({ x: Math.round(point.x), y: Math.round(point.y) }),
+      delay: time - elapsed,
+      hwnd,
+    })
+    elapsed = time
+  }
+
+  if (options.click) {
+    const { down, up } = MOUSE_BUTTON_CLICKS[options.click]
+    const target = encodeMousePoint(to)
+
+    events.push({ message: down, ...target, delay: Math.max(1, Math.round(duration / steps)), hwnd })
+    events.push({ message: up, ...target, delay: sanitizeDelay(options.clickHold ?? 50), hwnd })
+  }
+
+  return events
+}
+
+/**
+ * One `WM_MOUSEWHEEL` event per notch: positive counts scroll up (away from the user), negative
+ * ones down. The delta sits in the high word of `paramH`; the low words are left at zero.
+ */
+export function buildWheelEvents(
+  notches: number,
+  options: { notchDelay?: number; hwnd?: number } = {},
+): EncodableEvent[] {
+  const count = Math.abs(Math.trunc(notches))
+  const paramH = encodeWheelDelta(Math.sign(notches) * WHEEL_DELTA)
+  const notchDelay = sanitizeDelay(options.notchDelay ?? 0)
+
+  return Array.from({ length: count }, (_value, index) => ({
+    message: WM_MOUSEWHEEL,
+    paramL: 0,
+    paramH,
+    delay: index === 0 ? 0 : notchDelay,
+    hwnd: options.hwnd ?? 0,
+  }))
+}
@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'vitest'
+
+import { encodeProject, parseProject } from './projectFile'
+
+const events = [
+  { message: 0x0201, paramL: 10, paramH: 20, delay: 0, hwnd: 0x10, comment: 'opens the inventory' },
+  { message: 0x0202, paramL: 10, paramH: 20, delay: 35, hwnd: 0x10 },
+  { message: 0x0100, paramL: 0x1e41, paramH: 0, delay: 5, hwnd: 0x20 },
+]
+
+const markers = [
+  { name: 'login done', color: '#22d3ee', start: 0 },
+  { name: 'farming loop', color: '#f97316', start: 1, end: 2 },
+]
+
+describe('projectFile', () => {
+  test('round-trips events, comments, markers and the base time', () => {
+    const parsed = parseProject(encodeProject({ baseTime: 4242, events, markers }))
+
+    expect(parsed.baseTime).toBe(4242)
+    expect(parsed.markers).toEqual(markers)
+    expect(parsed.events.map((event) => event.time)).toEqual([0, 35, 40])
+    expect(parsed.events[0].comment).toBe('opens the inventory')
+    expect(parsed.events.map(({ time: _time, ...event }) => event)).toEqual(events)
+  })
+
+  test('rejects other JSON and markers that point past the events', () => {
+    expect(() => parseProject('{"events": []}')).toThrow('Not a project file')
+    expect(() => parseProject('nope')).toThrow('not valid JSON')
+
+    const text = encodeProject({ baseTime: 0, events, markers: [{ name: 'x', color: '', start: 1, end: 7 }] })
+    expect(() => parseProject(text)).toThrow('Project marker 1: "end"')
+  })
+})
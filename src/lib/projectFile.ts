@@ -0,0 +1,130 @@
+import type { EncodableEvent, TinyTaskEvent } from './recParser'
+import { recomputeTimeline } from './transforms'
+
+/**
+ * Project files (`.rtproj`) bundle a macro with the metadata a `.rec` cannot hold: named markers,
+ * colored sections and per-event comments. They are plain JSON:
+ *
+ * ```json
+ * { "format": "tinytask-project", "version": 1, "baseTime": 123,
+ *   "events": [{ "message": 512, "paramL": 10, "paramH": 20, "delay": 0, "hwnd": 0, "comment": "…" }],
+ *   "markers": [{ "name": "login done", "color": "#22d3ee", "start": 0, "end": 4 }] }
+ * ```
+ *
+ * Markers point at events by index; `end` (inclusive) turns a marker into a section.
+ */
+
+export const PROJECT_FORMAT = 'tinytask-project'
+export const PROJECT_VERSION = 1
+export const PROJECT_EXTENSION = '.rtproj'
+
+const EVENT_FIELDS = ['message', 'paramL', 'paramH', 'delay', 'hwnd'] as const
+
+export interface ProjectEvent extends EncodableEvent {
+  comment?: string
+}
+
+export interface ProjectMarker {
+  name: string
+  color: string
+  /** Index of the marked event, or of the first event of a section. */
+  start: number
+  /** Index of the last event of a section; absent for point markers. */
+  end?: number
+}
+
+export interface MacroProject {
+  baseTime: number
+  events: ProjectEvent[]
+  markers: ProjectMarker[]
+}
+
+export interface ParsedProject {
+  baseTime: number
+  events: Array<TinyTaskEvent & { comment?: string }>
+  markers: ProjectMarker[]
+}
+
+export function encodeProject(project: MacroProject): string {
+  return `${JSON.stringify(
+    {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      baseTime: project.baseTime,
+      events: project.events.map(({ message, paramL, paramH, delay, hwnd, comment }) =>
+        comment ? { message, paramL, paramH, delay, hwnd, comment } : { message, paramL, paramH, delay, hwnd },
+      ),
+      markers: project.markers.map(({ name, color, start, end }) =>
+        end === undefined || end === start ? { name, color, start } : { name, color, start, end },
+      ),
+    },
+    null,
+    2,
+  )}\n`
+}
+
+const isIndex = (value: unknown, count: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < count
+
+/** Parses a project file; throws with a readable message when it is malformed. */
+export function parseProject(text: string): ParsedProject {
+  let data: Record<string, unknown>
+
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Project file is not valid JSON.')
+  }
+
+  if (data?.format !== PROJECT_FORMAT) {
+    throw new Error(`Not a project file (expected "format": "${PROJECT_FORMAT}").`)
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project version ${String(data.version)}.`)
+  }
+  if (!Array.isArray(data.events)) {
+    throw new Error('Project file has no "events" array.')
+  }
+
+  const events = data.events.map((entry: Record<string, unknown>, index) => {
+    const event = { time: 0 } as TinyTaskEvent & { comment?: string }
+
+    EVENT_FIELDS.forEach((field) => {
+      const value = entry?.[field]
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        throw new Error(`Project event ${index + 1}: "${field}" must be an integer.`)
+      }
+      event[field] = value >>> 0
+    })
+
+    if (typeof entry.comment === 'string' && entry.comment) {
+      event.comment = entry.comment
+    }
+
+    return event
+  })
+
+  const markers = (Array.isArray(data.markers) ? data.markers : []).map(
+    (entry: Record<string, unknown>, index): ProjectMarker => {
+      if (!isIndex(entry?.start, events.length)) {
+        throw new Error(`Project marker ${index + 1}: "start" must be an event index.`)
+      }
+      if (entry.end !== undefined && (!isIndex(entry.end, events.length) || entry.end < entry.start)) {
+        throw new Error(`Project marker ${index + 1}: "end" must be an event index after "start".`)
+      }
+
+      return {
+        name: typeof entry.name === 'string' ? entry.name : '',
+        color: typeof entry.color === 'string' ? entry.color : '',
+        start: entry.start,
+        ...(entry.end !== undefined && entry.end !== entry.start ? { end: entry.end as number } : {}),
+      }
+    },
+  )
+
+  return {
+    baseTime: typeof data.baseTime === 'number' && Number.isInteger(data.baseTime) ? data.baseTime >>> 0 : 0,
+    events: recomputeTimeline(events),
+    markers,
+  }
+}
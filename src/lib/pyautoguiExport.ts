@@ -0,0 +1,113 @@
+import { describeVirtualKey, mapVirtualKey } from './keyCodes'
+import { buildMacroSteps, type MacroStep, type MacroStepOptions } from './macroSteps'
+import type { EncodableEvent } from './recParser'
+
+/** pyautogui key names keyed by the labels produced by `describeVirtualKey`. */
+const PYAUTOGUI_KEYS: Record<string, string> = {
+  Backspace: 'backspace',
+  Tab: 'tab',
+  Enter: 'enter',
+  Shift: 'shift',
+  Ctrl: 'ctrl',
+  Alt: 'alt',
+  Pause: 'pause',
+  'Caps Lock': 'capslock',
+  Esc: 'esc',
+  Space: 'space',
+  'Page Up': 'pageup',
+  'Page Down': 'pagedown',
+  End: 'end',
+  Home: 'home',
+  'Arrow Left': 'left',
+  'Arrow Up': 'up',
+  'Arrow Right': 'right',
+  'Arrow Down': 'down',
+  'Print Screen': 'printscreen',
+  Insert: 'insert',
+  Delete: 'delete',
+  'Left Win': 'winleft',
+  'Right Win': 'winright',
+  Menu: 'apps',
+  'Numpad 0': 'num0',
+  'Numpad 1': 'num1',
+  'Numpad 2': 'num2',
+  'Numpad 3': 'num3',
+  'Numpad 4': 'num4',
+  'Numpad 5': 'num5',
+  'Numpad 6': 'num6',
+  'Numpad 7': 'num7',
+  'Numpad 8': 'num8',
+  'Numpad 9': 'num9',
+  'Numpad *': 'multiply',
+  'Numpad +': 'add',
+  'Numpad Separator': 'separator',
+  'Numpad -': 'subtract',
+  'Numpad .': 'decimal',
+  'Numpad /': 'divide',
+  F1: 'f1',
+  F2: 'f2',
+  F3: 'f3',
+  F4: 'f4',
+  F5: 'f5',
+  F6: 'f6',
+  F7: 'f7',
+  F8: 'f8',
+  F9: 'f9',
+  F10: 'f10',
+  F11: 'f11',
+  F12: 'f12',
+  'Num Lock': 'numlock',
+  'Scroll Lock': 'scrolllock',
+}
+
+const renderKey = (call: 'press' | 'keyDown' | 'keyUp', code: number) => {
+  const key = mapVirtualKey(code, PYAUTOGUI_KEYS)
+
+  if (!key) {
+    return `# Skipped ${call} for unmapped key ${describeVirtualKey(code)}`
+  }
+
+  return `pyautogui.${call}('${key}')`
+}
+
+const renderStep = (step: MacroStep): string => {
+  switch (step.kind) {
+    case 'sleep':
+      return `time.sleep(${step.ms / 1000})`
+    case 'move':
+      return `pyautogui.moveTo(${step.x}, ${step.y})`
+    case 'click':
+      return `pyautogui.click(${step.x}, ${step.y}, button='${step.button}')`
+    case 'buttonDown':
+      return `pyautogui.mouseDown(${step.x}, ${step.y}, button='${step.button}')`
+    case 'buttonUp':
+      return `pyautogui.mouseUp(${step.x}, ${step.y}, button='${step.button}')`
+    case 'keyPress':
+      return renderKey('press', step.code)
+    case 'keyDown':
+      return renderKey('keyDown', step.code)
+    case 'keyUp':
+      return renderKey('keyUp', step.code)
+    case 'wheel':
+      return `pyautogui.scroll(${step.notches})`
+    case 'unsupported':
+      return `# Skipped message 0x${step.message.toString(16).toUpperCase()} (${step.paramL}, ${step.paramH})`
+  }
+}
+
+/** Renders the timeline as a Python script driven by `pyautogui`. */
+export function exportPyautogui(events: EncodableEvent[], options: MacroStepOptions = {}): string {
+  const lines = [
+    '#!/usr/bin/env python3',
+    '# Generated by TinyTask Macro Editor',
+    'import time',
+    '',
+    'import pyautogui',
+    '',
+    'pyautogui.PAUSE = 0',
+    '',
+    ...buildMacroSteps(events, options).map(renderStep),
+  ]
+
+  return `${lines.join('\n')}\n`
+}
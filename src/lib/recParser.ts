@@ -5,9 +5,12 @@ const UINT32_MAX = 0x1_0000_0000
 export interface TinyTaskEvent {
   /** Windows message identifier (e.g., WM_MOUSEMOVE = 0x0200). */
   message: number
-  /** Low-order parameter. For mouse events this stores modifier/button state. */
+  /**
+   * Low-order parameter as a raw uint32: the X coordinate for mouse events, the virtual key and
+   * scan code for keys. Use `decodeMousePoint` from `eventParams` for signed coordinates.
+   */
   paramL: number
-  /** High-order parameter. Typically encodes coordinates or key scan code. */
+  /** High-order parameter as a raw uint32: the Y coordinate for mouse events, the wheel delta in its high word. */
   paramH: number
   /** Timestamp in milliseconds since system start, normalised to begin at 0. */
   time: number
@@ -146,6 +149,10 @@ function toUint32(value: number): number {
   return ((normalised % UINT32_MAX) + UINT32_MAX) % UINT32_MAX
 }
 
+/**
+ * Serialises events back into the binary `.rec` layout. Parameters are written as uint32, so
+ * signed values (e.g. negative coordinates) wrap to the same bits `parseRec` read.
+ */
 export function encodeRec(
   events: EncodableEvent[],
   options: EncodeOptions = {},
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'vitest'
+
+import { SCRIPT_EXPORTERS } from './scriptExporters'
+
+const hwnd = 0x10
+
+const events = [
+  { message: 0x0200, paramL: 10, paramH: 20, delay: 0, hwnd },
+  { message: 0x0201, paramL: 10, paramH: 20, delay: 40, hwnd },
+  { message: 0x0202, paramL: 10, paramH: 20, delay: 10, hwnd },
+  { message: 0x0100, paramL: 0x0d, paramH: 0, delay: 250, hwnd },
+  { message: 0x0101, paramL: 0x0d, paramH: 0, delay: 500, hwnd },
+  { message: 0x0100, paramL: 0x41, paramH: 0, delay: 5, hwnd },
+  { message: 0x0101, paramL: 0x41, paramH: 0, delay: 5, hwnd },
+  { message: 0x0100, paramL: 0xba, paramH: 0, delay: 5, hwnd },
+]
+
+const body = (script: string, headerLength: number) => script.split('\n').slice(headerLength, -1)
+
+describe('scriptExporters', () => {
+  test('renders xdotool commands with X11 keysyms', () => {
+    expect(body(SCRIPT_EXPORTERS.xdotool.render(events), 4)).toEqual([
+      'xdotool mousemove 10 20',
+      'sleep 0.04',
+      'xdotool mousemove 10 20 click 1',
+      'sleep 0.26',
+      'xdotool keydown Return',
+      'sleep 0.5',
+      'xdotool keyup Return',
+      'sleep 0.005',
+      'xdotool key a',
+      'sleep 0.01',
+      '# Skipped keydown for unmapped key VK_BA',
+    ])
+  })
+
+  test('renders pyautogui calls with pyautogui key names', () => {
+    expect(body(SCRIPT_EXPORTERS.pyautogui.render(events), 8)).toEqual([
+      'pyautogui.moveTo(10, 20)',
+      'time.sleep(0.04)',
+      "pyautogui.click(10, 20, button='left')",
+      'time.sleep(0.26)',
+      "pyautogui.keyDown('enter')",
+      'time.sleep(0.5)',
+      "pyautogui.keyUp('enter')",
+      'time.sleep(0.005)',
+      "pyautogui.press('a')",
+      'time.sleep(0.01)',
+      '# Skipped keyDown for unmapped key VK_BA',
+    ])
+  })
+})
@@ -0,0 +1,37 @@
+import { exportAutoHotkey } from './ahkExport'
+import type { MacroStepOptions } from './macroSteps'
+import { exportPyautogui } from './pyautoguiExport'
+import type { EncodableEvent } from './recParser'
+import { exportXdotool } from './xdotoolExport'
+
+export type ScriptFormat = 'ahk' | 'xdotool' | 'pyautogui'
+
+export interface ScriptExporter {
+  /** Human-readable name of the target tool. */
+  label: string
+  /** File extension (without the dot) for the generated script. */
+  extension: string
+  mimeType: string
+  render: (events: EncodableEvent[], options?: MacroStepOptions) => string
+}
+
+export const SCRIPT_EXPORTERS: Record<ScriptFormat, ScriptExporter> = {
+  ahk: {
+    label: 'AutoHotkey v2',
+    extension: 'ahk',
+    mimeType: 'text/plain',
+    render: exportAutoHotkey,
+  },
+  xdotool: {
+    label: 'xdotool (bash)',
+    extension: 'sh',
+    mimeType: 'text/x-shellscript',
+    render: exportXdotool,
+  },
+  pyautogui: {
+    label: 'Python pyautogui',
+    extension: 'py',
+    mimeType: 'text/x-python',
+    render: exportPyautogui,
+  },
+}
@@ -0,0 +1,20 @@
+const UINT32_RANGE = 0x1_0000_0000
+
+/** Seeds are uint32 values, short enough to show in the UI and type back in. */
+export const createRandomSeed = () => Math.floor(Math.random() * UINT32_RANGE)
+
+/**
+ * Mulberry32: a small, fast PRNG returning values in [0, 1). The same seed always yields the same
+ * sequence, which keeps randomized edits reproducible.
+ */
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE
+  }
+}
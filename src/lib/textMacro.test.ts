@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, test } from 'vitest'
+
+import { cloneAsEncodable, encodeRec, parseRec } from './recParser'
+import { encodeTextMacro, parseTextMacro } from './textMacro'
+
+function loadFixture(): ArrayBuffer {
+  const url = new URL('../../fixtures/anivers-farm.rec', import.meta.url)
+  const buffer = readFileSync(url)
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+}
+
+describe('textMacro', () => {
+  test('round-trips a recording to the original binary', () => {
+    const data = loadFixture()
+    const parsed = parseRec(data)
+
+    const text = encodeTextMacro(cloneAsEncodable(parsed.events), { baseTime: parsed.baseTime })
+    const reparsed = parseTextMacro(text)
+    const rebuilt = encodeRec(cloneAsEncodable(reparsed.events), { baseTime: reparsed.baseTime })
+
+    expect(reparsed.events).toEqual(parsed.events)
+    expect(Buffer.from(rebuilt)).toEqual(Buffer.from(data))
+  })
+
+  test('writes readable commands and preserves extra fields', () => {
+    const text = encodeTextMacro(
+      [
+        { message: 0x0200, paramL: 640, paramH: 480, delay: 0, hwnd: 0x10 },
+        { message: 0x0100, paramL: 0x1e41, paramH: 1, delay: 35, hwnd: 0x10 },
+        { message: 0x0201, paramL: 100, paramH: 200, delay: 0, hwnd: 0x20 },
+        { message: 0x0281, paramL: 1, paramH: 0, delay: 12, hwnd: 0x10 },
+      ],
+      { baseTime: 99 },
+    )
+
+    expect(text.split('\n')).toEqual([
+      '# tinytask-text v1',
+      '@base 99',
+      '@hwnd 0x10',
+      '+0ms MOVE 640 480',
+      '+35ms KEYDOWN A scan=0x1E h=0x1',
+      '+0ms LCLICK_DOWN 100 200 hwnd=0x20',
+      '+12ms MSG 0x281 1 0',
+      '',
+    ])
+  })
+
+  test('parses key names with spaces and reports bad lines', () => {
+    const parsed = parseTextMacro('+0ms KEYDOWN arrow_left\n+5ms KEYUP VK_25\n')
+
+    expect(parsed.events.map((event) => event.paramL)).toEqual([0x25, 0x25])
+    expect(parsed.duration).toBe(5)
+    expect(() => parseTextMacro('+0ms JUMP 1 2')).toThrow('Line 1: unknown command "JUMP".')
+    expect(() => parseTextMacro('0ms MOVE 1 2')).toThrow(/Line 1: expected a delay/)
+  })
+
+  test('keeps event comments after a hash', () => {
+    const text = encodeTextMacro([
+      { message: 0x0201, paramL: 812, paramH: 455, delay: 0, hwnd: 0, comment: 'opens the\ninventory' },
+      { message: 0x0202, paramL: 812, paramH: 455, delay: 20, hwnd: 0 },
+    ])
+
+    expect(text).toContain('+0ms LCLICK_DOWN 812 455 # opens the inventory\n')
+    expect(parseTextMacro(text).events.map((event) => event.comment)).toEqual(['opens the inventory', undefined])
+    expect(parseTextMacro('+0ms MOVE 1 2 #  spaced  ').events[0].comment).toBe('spaced')
+  })
+})
@@ -0,0 +1,253 @@
+import { decodeMousePoint } from './eventParams'
+import { VIRTUAL_KEY_CODES, describeVirtualKey } from './keyCodes'
+import {
+  MOUSE_MESSAGES,
+  WM_KEYDOWN,
+  WM_KEYUP,
+  WM_MOUSEMOVE,
+  WM_MOUSEWHEEL,
+  WM_SYSKEYDOWN,
+  WM_SYSKEYUP,
+} from './messageCatalog'
+import type { EncodableEvent, EncodeOptions, ParseResult, TinyTaskEvent } from './recParser'
+import { mostCommonHwnd } from './transforms'
+
+/**
+ * Line-oriented text representation of a TinyTask macro, designed to be diffed and reviewed.
+ *
+ * ```
+ * # tinytask-text v1
+ * @base 1234567
+ * @hwnd 0x1A2B
+ * +0ms MOVE 640 480
+ * +35ms KEYDOWN A scan=0x1E
+ * +0ms LCLICK_DOWN 100 200 hwnd=0x3C4D
+ * +12ms MSG 0x0281 1 0
+ * +20ms LCLICK_DOWN 812 455 # opens the inventory
+ * ```
+ *
+ * Every field of the binary record is preserved, so converting text back to `.rec`
+ * yields the same bytes `encodeRec` produced for the original events. Text after ` # ` on an
+ * event line is that event's comment.
+ */
+
+const UINT32_MAX = 0x1_0000_0000
+
+export const TEXT_MACRO_HEADER = '# tinytask-text v1'
+
+/** Comments start at a `#` preceded by whitespace, so they never swallow a command token. */
+const COMMENT_PATTERN = /\s#\s?(.*)$/
+
+export interface TextMacroEvent extends TinyTaskEvent {
+  comment?: string
+}
+
+const MOUSE_COMMANDS: Record<number, string> = {
+  [WM_MOUSEMOVE]: 'MOVE',
+  0x0201: 'LCLICK_DOWN',
+  0x0202: 'LCLICK_UP',
+  0x0204: 'RCLICK_DOWN',
+  0x0205: 'RCLICK_UP',
+  0x0207: 'MCLICK_DOWN',
+  0x0208: 'MCLICK_UP',
+  [WM_MOUSEWHEEL]: 'WHEEL',
+}
+
+const KEY_COMMANDS: Record<number, string> = {
+  [WM_KEYDOWN]: 'KEYDOWN',
+  [WM_KEYUP]: 'KEYUP',
+  [WM_SYSKEYDOWN]: 'SYSKEYDOWN',
+  [WM_SYSKEYUP]: 'SYSKEYUP',
+}
+
+const RAW_COMMAND = 'MSG'
+
+const invert = (map: Record<number, string>) =>
+  new Map(Object.entries(map).map(([code, name]) => [name, Number(code)]))
+
+const MOUSE_COMMAND_CODES = invert(MOUSE_COMMANDS)
+const KEY_COMMAND_CODES = invert(KEY_COMMANDS)
+
+const keyToken = (code: number) => describeVirtualKey(code).replace(/ /g, '_')
+
+const KEY_TOKEN_CODES = new Map(VIRTUAL_KEY_CODES.map((code) => [keyToken(code).toUpperCase(), code]))
+
+const formatHex = (value: number) => `0x${value.toString(16).toUpperCase()}`
+
+const toUint32 = (value: number) => {
+  const normalised = Math.trunc(value)
+  return ((normalised % UINT32_MAX) + UINT32_MAX) % UINT32_MAX
+}
+
+const formatOperands = (event: EncodableEvent): string[] => {
+  const keyCommand = KEY_COMMANDS[event.message]
+  if (keyCommand) {
+    const virtualKey = event.paramL & 0xff
+    const operands = [keyCommand, keyToken(virtualKey)]
+    const scanCode = event.paramL >>> 8
+
+    if (scanCode) {
+      operands.push(`scan=${formatHex(scanCode)}`)
+    }
+    if (event.paramH) {
+      operands.push(`h=${formatHex(event.paramH)}`)
+    }
+
+    return operands
+  }
+
+  const mouseCommand = MOUSE_COMMANDS[event.message]
+  if (mouseCommand && MOUSE_MESSAGES.has(event.message)) {
+    const { x, y } = decodeMousePoint(event)
+    return [mouseCommand, String(x), String(y)]
+  }
+  if (mouseCommand) {
+    return [mouseCommand, String(event.paramL), String(event.paramH)]
+  }
+
+  return [RAW_COMMAND, formatHex(event.message), String(event.paramL), String(event.paramH)]
+}
+
+export function encodeTextMacro(
+  events: Array<EncodableEvent & { comment?: string }>,
+  options: EncodeOptions = {},
+): string {
+  const defaultHwnd = mostCommonHwnd(events)
+  const lines = [TEXT_MACRO_HEADER, `@base ${toUint32(options.baseTime ?? 0)}`, `@hwnd ${formatHex(defaultHwnd)}`]
+
+  events.forEach((event, index) => {
+    const delay = index === 0 ? 0 : toUint32(event.delay)
+    const parts = [`+${delay}ms`, ...formatOperands(event)]
+
+    if (event.hwnd !== defaultHwnd) {
+      parts.push(`hwnd=${formatHex(event.hwnd)}`)
+    }
+    if (event.comment) {
+      parts.push(`# ${event.comment.replace(/\s+/g, ' ').trim()}`)
+    }
+
+    lines.push(parts.join(' '))
+  })
+
+  return `${lines.join('\n')}\n`
+}
+
+const parseInteger = (token: string | undefined, lineNumber: number, what: string): number => {
+  const value = token === undefined ? Number.NaN : Number(token)
+
+  if (!token || !Number.isInteger(value)) {
+    throw new Error(`Line ${lineNumber}: expected an integer ${what}, got "${token ?? ''}".`)
+  }
+
+  return toUint32(value)
+}
+
+const parseKey = (token: string | undefined, lineNumber: number): number => {
+  if (!token) {
+    throw new Error(`Line ${lineNumber}: missing key name.`)
+  }
+
+  const named = KEY_TOKEN_CODES.get(token.toUpperCase())
+  if (named !== undefined) {
+    return named
+  }
+
+  const match = /^VK_([0-9A-F]{1,2})$/i.exec(token)
+  if (match) {
+    return Number.parseInt(match[1], 16)
+  }
+
+  throw new Error(`Line ${lineNumber}: unknown key "${token}".`)
+}
+
+export function parseTextMacro(text: string): Omit<ParseResult, 'events'> & { events: TextMacroEvent[] } {
+  const events: TextMacroEvent[] = []
+  const hwndSet = new Set<number>()
+  let baseTime = 0
+  let defaultHwnd = 0
+  let time = 0
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const lineNumber = lineIndex + 1
+    const trimmed = rawLine.trim()
+
+    if (!trimmed || trimmed.startsWith('#')) {
+      return
+    }
+
+    const commentMatch = COMMENT_PATTERN.exec(trimmed)
+    const line = commentMatch ? trimmed.slice(0, commentMatch.index) : trimmed
+    const comment = commentMatch?.[1].trim()
+
+    const tokens = line.split(/\s+/)
+
+    if (tokens[0] === '@base') {
+      baseTime = parseInteger(tokens[1], lineNumber, 'base time')
+      return
+    }
+
+    if (tokens[0] === '@hwnd') {
+      defaultHwnd = parseInteger(tokens[1], lineNumber, 'window handle')
+      return
+    }
+
+    const delayMatch = /^\+(\d+)ms$/.exec(tokens[0])
+    if (!delayMatch) {
+      throw new Error(`Line ${lineNumber}: expected a delay like "+35ms", got "${tokens[0]}".`)
+    }
+
+    const attributes = new Map<string, string>()
+    const operands = tokens.slice(1).filter((token) => {
+      const separator = token.indexOf('=')
+      if (separator <= 0) {
+        return true
+      }
+      attributes.set(token.slice(0, separator).toLowerCase(), token.slice(separator + 1))
+      return false
+    })
+
+    const [command, ...args] = operands
+    const upperCommand = (command ?? '').toUpperCase()
+    let message: number
+    let paramL: number
+    let paramH: number
+
+    if (KEY_COMMAND_CODES.has(upperCommand)) {
+      message = KEY_COMMAND_CODES.get(upperCommand)!
+      const scanCode = attributes.has('scan') ? parseInteger(attributes.get('scan'), lineNumber, 'scan code') : 0
+      paramL = toUint32(parseKey(args[0], lineNumber) + scanCode * 0x100)
+      paramH = attributes.has('h') ? parseInteger(attributes.get('h'), lineNumber, 'high parameter') : 0
+    } else if (MOUSE_COMMAND_CODES.has(upperCommand)) {
+      message = MOUSE_COMMAND_CODES.get(upperCommand)!
+      paramL = parseInteger(args[0], lineNumber, 'X coordinate')
+      paramH = parseInteger(args[1], lineNumber, 'Y coordinate')
+    } else if (upperCommand === RAW_COMMAND) {
+      message = parseInteger(args[0], lineNumber, 'message code')
+      paramL = parseInteger(args[1], lineNumber, 'low parameter')
+      paramH = parseInteger(args[2], lineNumber, 'high parameter')
+    } else {
+      throw new Error(`Line ${lineNumber}: unknown command "${command ?? ''}".`)
+    }
+
+    const hwnd = attributes.has('hwnd')
+      ? parseInteger(attributes.get('hwnd'), lineNumber, 'window handle')
+      : defaultHwnd
+    const delay = events.length === 0 ? 0 : Number(delayMatch[1])
+    time += delay
+
+    const event: TextMacroEvent = { message, paramL, paramH, time, delay, hwnd }
+    if (comment) {
+      event.comment = comment
+    }
+
+    events.push(event)
+    hwndSet.add(hwnd)
+  })
+
+  return {
+    events,
+    baseTime,
+    hwnds: [...hwndSet],
+    duration: events.length ? events[events.length - 1].time : 0,
+  }
+}
@@ -0,0 +1,312 @@
+import { describe, expect, test } from 'vitest'
+
+import {
+  clampSmallDelays,
+  concatTimelines,
+  findFirstIndexFrom,
+  findIndexAtTime,
+  humanizeEvents,
+  insertTimeline,
+  mapMouseCoordinates,
+  mostCommonHwnd,
+  moveMouseEvent,
+  recomputeTimeline,
+  replaceEvents,
+  repeatSegment,
+  retimeEvent,
+  scaleDelays,
+  simplifyMouseMoves,
+  stripMouseMoves,
+  summarizeMacro,
+} from './transforms'
+
+const hwnd = 0x10
+
+const event = (message: number, delay: number, paramL = 0, paramH = 0) => ({
+  message,
+  paramL,
+  paramH,
+  delay,
+  hwnd,
+  time: 0,
+})
+
+describe('transforms', () => {
+  test('keeps untouched events by reference and respects the predicate', () => {
+    const events = [event(0x0200, 0), event(0x0200, 10), event(0x0201, 40)]
+    const scaled = scaleDelays(events, 2, {}, (_entry, index) => index === 2)
+
+    expect(scaled[1]).toBe(events[1])
+    expect(scaled.map((entry) => entry.delay)).toEqual([0, 10, 80])
+  })
+
+  test('scales delays with a floor and a minimum gap', () => {
+    const events = [event(0x0200, 0), event(0x0200, 8), event(0x0200, 40), event(0x0200, 1000)]
+
+    expect(scaleDelays(events, 0.25, { minDelay: 15 }).map((entry) => entry.delay)).toEqual([0, 8, 15, 250])
+    expect(scaleDelays(events, 3, { onlyAbove: 40 }).map((entry) => entry.delay)).toEqual([0, 8, 40, 3000])
+  })
+
+  test('clamps jitter below the threshold but never the first event', () => {
+    const events = [event(0x0200, 5), event(0x0200, 12), event(0x0200, 30)]
+
+    expect(clampSmallDelays(events, 20).map((entry) => entry.delay)).toEqual([5, 0, 30])
+  })
+
+  test('strips mouse moves while keeping click timing', () => {
+    const events = recomputeTimeline([
+      event(0x0200, 0, 1, 1),
+      event(0x0200, 16, 2, 2),
+      event(0x0201, 16, 3, 3),
+      event(0x0200, 20, 4, 4),
+      event(0x0202, 5, 4, 4),
+    ])
+
+    const stripped = recomputeTimeline(stripMouseMoves(events))
+
+    expect(stripped.map((entry) => [entry.message, entry.time])).toEqual([
+      [0x0201, 0],
+      [0x0202, 25],
+    ])
+  })
+
+  test('maps mouse coordinates between rectangles and leaves keys alone', () => {
+    const events = [event(0x0200, 0, 960, 540), event(0x0201, 10, 1919, 0), event(0x0100, 10, 0x41)]
+    const scaled = mapMouseCoordinates(
+      events,
+      { x: 0, y: 0, width: 1920, height: 1080 },
+      { x: 0, y: 0, width: 2560, height: 1440 },
+    )
+
+    expect(scaled.map((entry) => [entry.paramL, entry.paramH])).toEqual([
+      [1280, 720],
+      [2559, 0],
+      [0x41, 0],
+    ])
+    expect(scaled[2]).toBe(events[2])
+
+    const shifted = mapMouseCoordinates(events, { x: 0, y: 0, width: 1, height: 1 }, { x: 100, y: -10, width: 1, height: 1 })
+    expect(shifted[0]).toMatchObject({ paramL: 1060, paramH: 530 })
+  })
+
+  test('concatenates timelines with a gap and summarizes them', () => {
+    const merged = concatTimelines([event(0x0100, 0)], [event(0x0101, 0), event(0x0281, 7)], 50)
+
+    expect(merged.map((entry) => entry.delay)).toEqual([0, 50, 7])
+    expect(summarizeMacro(merged)).toEqual({
+      eventCount: 3,
+      duration: 57,
+      hwnds: [hwnd],
+      unknownMessages: [0x0281],
+    })
+  })
+
+  test('inserts a timeline at an index or at a timestamp', () => {
+    const events = recomputeTimeline([event(0x0100, 0), event(0x0101, 100), event(0x0100, 100)])
+    const inserted = [event(0x0201, 0), event(0x0202, 30)]
+
+    const atIndex = insertTimeline(events, inserted, { index: 1 }, 20)
+    expect(atIndex.map((entry) => [entry.message, entry.delay])).toEqual([
+      [0x0100, 0],
+      [0x0201, 20],
+      [0x0202, 30],
+      [0x0101, 100],
+      [0x0100, 100],
+    ])
+
+    const atTime = recomputeTimeline(insertTimeline(events, inserted, { time: 150 }, 10))
+    expect(atTime.map((entry) => [entry.message, entry.time])).toEqual([
+      [0x0100, 0],
+      [0x0101, 100],
+      [0x0201, 160],
+      [0x0202, 190],
+      [0x0100, 240],
+    ])
+    expect(insertTimeline(events, [], { time: 0 })).toBe(events)
+    expect(mostCommonHwnd([{ ...event(0, 0), hwnd: 1 }, { ...event(0, 0), hwnd: 2 }, { ...event(0, 0), hwnd: 2 }])).toBe(2)
+    expect(mostCommonHwnd([1, 2, 2, 1].map((handle) => ({ ...event(0, 0), hwnd: handle })))).toBe(1)
+  })
+
+  test('retimes an event with anchored or rippling followers', () => {
+    const events = recomputeTimeline([event(0x0100, 0), event(0x0101, 100), event(0x0100, 100), event(0x0101, 50)])
+    const times = (entries: typeof events) => recomputeTimeline(entries).map((entry) => entry.time)
+
+    expect(findIndexAtTime(events, 100)).toBe(2)
+    expect(findFirstIndexFrom(events, 100)).toBe(1)
+    expect(times(retimeEvent(events, 1, 150))).toEqual([0, 150, 200, 250])
+    expect(times(retimeEvent(events, 1, 400))).toEqual([0, 200, 200, 250])
+    expect(times(retimeEvent(events, 1, 150, 'ripple'))).toEqual([0, 150, 250, 300])
+    expect(times(retimeEvent(events, 2, -10, 'ripple'))).toEqual([0, 100, 100, 150])
+    expect(retimeEvent(events, 0, 50)).toBe(events)
+    expect(retimeEvent(events, 1, 100)).toBe(events)
+  })
+
+  test('simplifies mouse move runs while keeping duration and click timing', () => {
+    const events = [
+      event(0x0200, 0, 0, 0),
+      event(0x0200, 10, 10, 1),
+      event(0x0200, 10, 20, 0),
+      event(0x0200, 10, 30, 1),
+      event(0x0200, 10, 40, 20),
+      event(0x0201, 15, 40, 20),
+      event(0x0200, 5, 50, 20),
+    ]
+
+    const simplified = simplifyMouseMoves(events, 2)
+
+    expect(simplified.map((entry) => [entry.paramL, entry.paramH])).toEqual([
+      [0, 0],
+      [30, 1],
+      [40, 20],
+      [40, 20],
+      [50, 20],
+    ])
+    expect(simplified.map((entry) => entry.delay)).toEqual([0, 30, 10, 15, 5])
+    expect(simplified[3]).toBe(events[5])
+    expect(summarizeMacro(simplified).duration).toBe(summarizeMacro(events).duration)
+  })
+
+  test('humanizes reproducibly and keeps button pairs on the same point', () => {
+    const events = [
+      event(0x0200, 0, 100, 100),
+      event(0x0201, 50, 100, 100),
+      event(0x0200, 20, 120, 100),
+      event(0x0202, 30, 120, 100),
+      event(0x0200, 5, 300, 300),
+    ]
+    const options = { seed: 42, delayJitter: 50, coordinateJitter: 5 }
+
+    const first = humanizeEvents(events, options)
+    const second = humanizeEvents(events, options)
+
+    expect(second).toEqual(first)
+    expect(humanizeEvents(events, { ...options, seed: 43 })).not.toEqual(first)
+
+    expect(first[3].paramL - first[1].paramL).toBe(20)
+    expect(first[3].paramH).toBe(first[1].paramH)
+    expect(first[2].paramL - first[1].paramL).toBe(20)
+    first.forEach((entry, index) => {
+      expect(Math.abs(entry.paramL - events[index].paramL)).toBeLessThanOrEqual(5)
+      expect(Math.abs(entry.delay - events[index].delay)).toBeLessThanOrEqual(events[index].delay / 2 + 0.5)
+      expect(entry.delay).toBeGreaterThanOrEqual(0)
+    })
+    expect(first[0].delay).toBe(0)
+  })
+
+  test('moves an untargeted release together with its humanized press', () => {
+    const events = [event(0x0201, 0, 10, 10), event(0x0202, 40, 10, 10)]
+    const humanized = humanizeEvents(events, { seed: 7, coordinateJitter: 10 }, (_entry, index) => index === 0)
+
+    expect(humanized[1].delay).toBe(40)
+    expect([humanized[1].paramL, humanized[1].paramH]).toEqual([humanized[0].paramL, humanized[0].paramH])
+  })
+
+  test('drags untargeted moves along with a humanized press and release', () => {
+    const events = [
+      event(0x0201, 0, 10, 10),
+      event(0x0200, 10, 20, 10),
+      event(0x0200, 10, 30, 10),
+      event(0x0202, 10, 30, 10),
+      event(0x0200, 10, 50, 50),
+    ]
+    const humanized = humanizeEvents(
+      events,
+      { seed: 7, coordinateJitter: 10 },
+      (_entry, index) => index === 0 || index === 3,
+    )
+    const dx = humanized[0].paramL - events[0].paramL
+    const dy = humanized[0].paramH - events[0].paramH
+
+    expect([dx, dy]).not.toEqual([0, 0])
+    humanized.slice(1, 4).forEach((entry, offset) => {
+      expect([entry.paramL - events[offset + 1].paramL, entry.paramH - events[offset + 1].paramH]).toEqual([dx, dy])
+    })
+    expect(humanized[4]).toBe(events[4])
+  })
+
+  test('moves a click marker together with its release', () => {
+    const events = [
+      event(0x0201, 0, 10, 10),
+      event(0x0200, 10, 12, 10),
+      event(0x0202, 10, 12, 10),
+      event(0x0200, 10, 50, 50),
+    ]
+    const moved = moveMouseEvent(events, 0, { x: 110, y: 60 })
+
+    expect(moved.map((entry) => [entry.paramL, entry.paramH])).toEqual([
+      [110, 60],
+      [112, 60],
+      [112, 60],
+      [50, 50],
+    ])
+    expect(moved[3]).toBe(events[3])
+    expect(moveMouseEvent(events, 1, { x: 0, y: 0 }).slice(2)).toEqual(events.slice(2))
+  })
+
+  test('repeats a segment with a gap and a per-iteration offset', () => {
+    const segment = [event(0x0201, 400, 100, 200), event(0x0202, 30, 100, 200), event(0x0100, 5, 0x41)]
+    const copies = repeatSegment(segment, 3, { gap: 250, offset: { x: 0, y: 40 } })
+
+    expect(copies).toHaveLength(6)
+    expect(copies.map((entry) => entry.delay)).toEqual([250, 30, 5, 250, 30, 5])
+    expect(copies.map((entry) => entry.paramH)).toEqual([240, 240, 0, 280, 280, 0])
+    expect(copies[2].paramL).toBe(0x41)
+    expect(repeatSegment(segment, 1)).toEqual([])
+  })
+
+  test('replaces keys, nearby click coordinates and exact delays', () => {
+    const events = [
+      event(0x0100, 0, 0x1e41),
+      event(0x0101, 16, 0x1e41),
+      event(0x0201, 16, 810, 458),
+      event(0x0202, 20, 818, 455),
+      event(0x0200, 16, 812, 455),
+    ]
+
+    const keys = replaceEvents(events, { kind: 'key', from: 0x41, to: 0x42, target: 'all' })
+    expect(keys.map((entry) => entry.paramL)).toEqual([0x42, 0x42, 810, 818, 812])
+    expect(replaceEvents(events, { kind: 'key', from: 0x41, to: 0x42, target: 'up' })[0]).toBe(events[0])
+
+    const clicks = replaceEvents(events, {
+      kind: 'point',
+      from: { x: 812, y: 455 },
+      tolerance: 5,
+      to: { x: 100, y: 200 },
+      target: 'buttons',
+    })
+    expect(clicks.map((entry) => [entry.paramL, entry.paramH])).toEqual([
+      [0x1e41, 0],
+      [0x1e41, 0],
+      [100, 200],
+      [108, 197],
+      [812, 455],
+    ])
+
+    const delays = replaceEvents(events, { kind: 'delay', from: 16, to: 20 }, (_entry, index) => index < 4)
+    expect(delays.map((entry) => entry.delay)).toEqual([0, 20, 20, 20, 16])
+    expect(delays[3]).toBe(events[3])
+  })
+
+  test('moves the release and drag path of a replaced click along with its press', () => {
+    const events = [
+      event(0x0201, 0, 812, 455),
+      event(0x0200, 10, 840, 470),
+      event(0x0202, 10, 860, 480),
+      event(0x0202, 10, 812, 455),
+    ]
+    const moved = replaceEvents(events, {
+      kind: 'point',
+      from: { x: 812, y: 455 },
+      tolerance: 5,
+      to: { x: 12, y: 55 },
+      target: 'buttons',
+    })
+
+    expect(moved.map((entry) => [entry.paramL, entry.paramH])).toEqual([
+      [12, 55],
+      [40, 70],
+      [60, 80],
+      [12, 55],
+    ])
+  })
+})
@@ -0,0 +1,710 @@
+import { decodeMousePoint, encodeMousePoint, type MousePoint } from './eventParams'
+import {
+  KEY_MESSAGES,
+  MESSAGE_LABELS,
+  MOUSE_BUTTON_ACTIONS,
+  MOUSE_MESSAGES,
+  WM_MOUSEMOVE,
+  isKeyDownMessage,
+  type MouseButton,
+} from './messageCatalog'
+import type { EncodableEvent } from './recParser'
+import { createSeededRandom } from './seededRandom'
+
+/**
+ * Pure timeline transformations shared by the editor and the command-line tool.
+ *
+ * Every transform returns a new array and keeps the original object for events it leaves untouched,
+ * so callers can cheaply detect whether anything changed. Absolute `time` values are not maintained
+ * here; run {@link recomputeTimeline} afterwards when the events carry one.
+ */
+
+const UINT32_MAX = 0x1_0000_0000
+
+/** Decides whether a transform applies to an event (the editor passes its selection here). */
+export type EventPredicate<T> = (event: T, index: number) => boolean
+
+const everyEvent = () => true
+
+export const sanitizeDelay = (value: number) => {
+  if (!Number.isFinite(value) || value < 0) {
+    return 0
+  }
+
+  return Math.min(Math.round(value), UINT32_MAX - 1)
+}
+
+/** Rebuilds `time` from the delays, forcing the first event to start at 0. */
+export const recomputeTimeline = <T extends EncodableEvent & { time: number }>(events: T[]): T[] => {
+  let elapsed = 0
+
+  return events.map((event, index) => {
+    if (index === 0) {
+      elapsed = 0
+      return { ...event, delay: 0, time: 0 }
+    }
+
+    const delay = sanitizeDelay(event.delay)
+    elapsed += delay
+
+    return { ...event, delay, time: elapsed }
+  })
+}
+
+export const hasTimelineChanged = <T>(previous: T[], next: T[]) =>
+  previous.length !== next.length || next.some((event, index) => event !== previous[index])
+
+const mapDelays = <T extends EncodableEvent>(
+  events: T[],
+  isTarget: EventPredicate<T>,
+  computeDelay: (event: T, index: number) => number | null,
+): T[] =>
+  events.map((event, index) => {
+    if (!isTarget(event, index)) {
+      return event
+    }
+
+    const delay = computeDelay(event, index)
+    if (delay === null || delay === event.delay) {
+      return event
+    }
+
+    return { ...event, delay }
+  })
+
+export const setDelays = <T extends EncodableEvent>(
+  events: T[],
+  value: number,
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  const normalized = sanitizeDelay(value)
+  return mapDelays(events, isTarget, () => normalized)
+}
+
+export const addToDelays = <T extends EncodableEvent>(
+  events: T[],
+  delta: number,
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  const deltaRounded = Math.round(delta)
+  return mapDelays(events, isTarget, (event) => sanitizeDelay(event.delay + deltaRounded))
+}
+
+/** Zeroes every delay shorter than `threshold`, removing recording jitter. The first event is left alone. */
+export const clampSmallDelays = <T extends EncodableEvent>(
+  events: T[],
+  threshold: number,
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  const limit = Math.max(0, Math.round(threshold))
+
+  return mapDelays(events, isTarget, (event, index) => {
+    if (index === 0 || event.delay === 0 || event.delay >= limit) {
+      return null
+    }
+
+    return 0
+  })
+}
+
+export interface ScaleDelayOptions {
+  /** Scaled delays never drop below this floor (delays already shorter than it are kept as they are). */
+  minDelay?: number
+  /** Only delays strictly longer than this many milliseconds are scaled. */
+  onlyAbove?: number
+}
+
+/** Multiplies delays by `factor` (0.5 plays twice as fast). */
+export const scaleDelays = <T extends EncodableEvent>(
+  events: T[],
+  factor: number,
+  options: ScaleDelayOptions = {},
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  if (!Number.isFinite(factor) || factor < 0) {
+    return events
+  }
+
+  const minDelay = Math.max(0, options.minDelay ?? 0)
+  const onlyAbove = options.onlyAbove
+
+  return mapDelays(events, isTarget, (event, index) => {
+    if (index === 0 || (onlyAbove !== undefined && event.delay <= onlyAbove)) {
+      return null
+    }
+
+    const scaled = sanitizeDelay(event.delay * factor)
+    return Math.max(scaled, Math.min(event.delay, minDelay))
+  })
+}
+
+/**
+ * Removes `WM_MOUSEMOVE` events. Their delays are folded into the next surviving event so
+ * clicks and key presses keep their original timing.
+ */
+export const stripMouseMoves = <T extends EncodableEvent>(
+  events: T[],
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  const next: T[] = []
+  let carriedDelay = 0
+
+  events.forEach((event, index) => {
+    if (event.message === WM_MOUSEMOVE && isTarget(event, index)) {
+      carriedDelay += event.delay
+      return
+    }
+
+    if (carriedDelay > 0 && next.length > 0) {
+      next.push({ ...event, delay: sanitizeDelay(event.delay + carriedDelay) })
+    } else {
+      next.push(event)
+    }
+
+    carriedDelay = 0
+  })
+
+  return next
+}
+
+const distanceToSegment = (point: MousePoint, start: MousePoint, end: MousePoint) => {
+  const dx = end.x - start.x
+  const dy = end.y - start.y
+  const lengthSquared = dx * dx + dy * dy
+
+  if (lengthSquared === 0) {
+    return Math.hypot(point.x - start.x, point.y - start.y)
+  }
+
+  const t = Math.min(1, Math.max(0, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy))
+}
+
+/** Ramer–Douglas–Peucker: flags the points to keep so the path stays within `tolerance` pixels. */
+const simplifyPolyline = (points: MousePoint[], tolerance: number): boolean[] => {
+  const keep = points.map((_, index) => index === 0 || index === points.length - 1)
+  const stack: Array<[number, number]> = [[0, points.length - 1]]
+
+  while (stack.length) {
+    const [first, last] = stack.pop()!
+    let farthest = -1
+    let farthestDistance = tolerance
+
+    for (let index = first + 1; index < last; index += 1) {
+      const distance = distanceToSegment(points[index], points[first], points[last])
+      if (distance > farthestDistance) {
+        farthest = index
+        farthestDistance = distance
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true
+      stack.push([first, farthest], [farthest, last])
+    }
+  }
+
+  return keep
+}
+
+/**
+ * Simplifies every run of consecutive `WM_MOUSEMOVE` events with Ramer–Douglas–Peucker. The
+ * first and last move of a run always survive, and removed delays are folded into the next
+ * surviving move, so the total duration and the timing of clicks and keys stay the same.
+ */
+export const simplifyMouseMoves = <T extends EncodableEvent>(
+  events: T[],
+  tolerance: number,
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    return events
+  }
+
+  const next: T[] = []
+  let index = 0
+
+  while (index < events.length) {
+    if (events[index].message !== WM_MOUSEMOVE || !isTarget(events[index], index)) {
+      next.push(events[index])
+      index += 1
+      continue
+    }
+
+    let end = index
+    while (end + 1 < events.length && events[end + 1].message === WM_MOUSEMOVE && isTarget(events[end + 1], end + 1)) {
+      end += 1
+    }
+
+    const run = events.slice(index, end + 1)
+    const keep = simplifyPolyline(run.map(decodeMousePoint), tolerance)
+    let carriedDelay = 0
+
+    run.forEach((event, offset) => {
+      if (!keep[offset]) {
+        carriedDelay += event.delay
+        return
+      }
+
+      next.push(carriedDelay > 0 ? { ...event, delay: sanitizeDelay(event.delay + carriedDelay) } : event)
+      carriedDelay = 0
+    })
+
+    index = end + 1
+  }
+
+  return next
+}
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Maps the X/Y of mouse events from one screen rectangle onto another. Rescaling for a new
+ * resolution maps `0,0,w1,h1` to `0,0,w2,h2`; a pure offset maps `0,0,1,1` to `dx,dy,1,1`.
+ */
+export const mapMouseCoordinates = <T extends EncodableEvent>(
+  events: T[],
+  from: Rect,
+  to: Rect,
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  if (from.width === 0 || from.height === 0) {
+    return events
+  }
+
+  const scaleX = to.width / from.width
+  const scaleY = to.height / from.height
+
+  return events.map((event, index) => {
+    if (!MOUSE_MESSAGES.has(event.message) || !isTarget(event, index)) {
+      return event
+    }
+
+    const { x, y } = decodeMousePoint(event)
+    const { paramL, paramH } = encodeMousePoint({
+      x: Math.round(to.x + (x - from.x) * scaleX),
+      y: Math.round(to.y + (y - from.y) * scaleY),
+    })
+
+    if (paramL === event.paramL && paramH === event.paramH) {
+      return event
+    }
+
+    return { ...event, paramL, paramH }
+  })
+}
+
+/**
+ * A find/replace rule:
+ *
+ * - `key` swaps the virtual key of key presses, releases or both; the old scan code is cleared.
+ * - `point` moves mouse events within `tolerance` pixels (per axis) of `from` to `to`, either only
+ *   button presses/releases or every mouse event including moves. A moved press takes its release
+ *   and the moves in between along by the same offset, so clicks stay clicks and drags keep their shape.
+ * - `delay` changes every delay of exactly `from` ms.
+ */
+export type ReplaceRule =
+  | { kind: 'key'; from: number; to: number; target: 'all' | 'down' | 'up' }
+  | { kind: 'point'; from: MousePoint; tolerance: number; to: MousePoint; target: 'buttons' | 'mouse' }
+  | { kind: 'delay'; from: number; to: number }
+
+const replaceOne = <T extends EncodableEvent>(event: T, rule: ReplaceRule): T => {
+  switch (rule.kind) {
+    case 'key': {
+      const isDown = isKeyDownMessage(event.message)
+      if (
+        !KEY_MESSAGES.has(event.message) ||
+        (rule.target === 'down' && !isDown) ||
+        (rule.target === 'up' && isDown) ||
+        (event.paramL & 0xff) !== rule.from ||
+        event.paramL === rule.to
+      ) {
+        return event
+      }
+
+      return { ...event, paramL: rule.to }
+    }
+    case 'point': {
+      const inScope = rule.target === 'mouse' ? MOUSE_MESSAGES.has(event.message) : event.message in MOUSE_BUTTON_ACTIONS
+      if (!inScope) {
+        return event
+      }
+
+      const { x, y } = decodeMousePoint(event)
+      if (Math.abs(x - rule.from.x) > rule.tolerance || Math.abs(y - rule.from.y) > rule.tolerance) {
+        return event
+      }
+
+      const { paramL, paramH } = encodeMousePoint(rule.to)
+      return paramL === event.paramL && paramH === event.paramH ? event : { ...event, paramL, paramH }
+    }
+    case 'delay': {
+      const delay = sanitizeDelay(rule.to)
+      return event.delay === rule.from && event.delay !== delay ? { ...event, delay } : event
+    }
+  }
+}
+
+/**
+ * Applies `rule` to every targeted event; the indexes whose object changed are the matches. Delay
+ * rules skip the first event, whose delay is always 0.
+ */
+export const replaceEvents = <T extends EncodableEvent>(
+  events: T[],
+  rule: ReplaceRule,
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  const heldOffsets = new Map<MouseButton, MousePoint>()
+
+  return events.map((event, index) => {
+    const action = MOUSE_BUTTON_ACTIONS[event.message]
+
+    if (heldOffsets.size && MOUSE_MESSAGES.has(event.message) && !action?.down) {
+      const offset = action ? heldOffsets.get(action.button) : [...heldOffsets.values()].at(-1)
+      if (offset) {
+        if (action) {
+          heldOffsets.delete(action.button)
+        }
+        const { x, y } = decodeMousePoint(event)
+        return { ...event, ...encodeMousePoint({ x: x + offset.x, y: y + offset.y }) }
+      }
+    }
+
+    if (!isTarget(event, index) || (rule.kind === 'delay' && index === 0)) {
+      return event
+    }
+
+    const next = replaceOne(event, rule)
+    if (rule.kind === 'point' && action?.down && next !== event) {
+      const { x, y } = decodeMousePoint(event)
+      heldOffsets.set(action.button, { x: rule.to.x - x, y: rule.to.y - y })
+    }
+    return next
+  })
+}
+
+export interface HumanizeOptions {
+  /** Seed for the random generator; the same seed and input always give the same result. */
+  seed: number
+  /** Maximum delay change, either a percentage of each delay or absolute milliseconds. */
+  delayJitter?: number
+  delayUnit?: 'percent' | 'ms'
+  /** Maximum mouse offset in pixels on each axis. */
+  coordinateJitter?: number
+}
+
+/**
+ * Applies seeded random jitter to delays and mouse coordinates. Every event recorded while a
+ * button is held reuses the offset picked for its button-down, so presses, drags and releases stay
+ * on the same point; a release is moved along with its press even when it is not a target.
+ */
+export const humanizeEvents = <T extends EncodableEvent>(
+  events: T[],
+  options: HumanizeOptions,
+  isTarget: EventPredicate<T> = everyEvent,
+): T[] => {
+  const random = createSeededRandom(options.seed)
+  const spread = () => random() * 2 - 1
+  const delayJitter = Math.max(0, options.delayJitter ?? 0)
+  const coordinateJitter = Math.max(0, options.coordinateJitter ?? 0)
+  const heldOffsets = new Map<MouseButton, MousePoint>()
+
+  const randomOffset = (): MousePoint => ({
+    x: Math.round(spread() * coordinateJitter),
+    y: Math.round(spread() * coordinateJitter),
+  })
+
+  return events.map((event, index) => {
+    const action = MOUSE_BUTTON_ACTIONS[event.message]
+    const pairedOffset = action && !action.down ? heldOffsets.get(action.button) : undefined
+    const targeted = isTarget(event, index)
+    // Moves between a shifted press and its release follow it, selected or not, so drags keep their shape.
+    const isHeldMove = !action && MOUSE_MESSAGES.has(event.message) && heldOffsets.size > 0
+
+    if (!targeted && !pairedOffset && !isHeldMove) {
+      if (action?.down) {
+        // Keep the untouched press as the anchor, so a targeted release is not pulled away from it.
+        heldOffsets.set(action.button, { x: 0, y: 0 })
+      }
+      return event
+    }
+
+    let next = event
+
+    if (targeted && index > 0 && delayJitter > 0) {
+      const range = options.delayUnit === 'ms' ? delayJitter : (event.delay * delayJitter) / 100
+      const delay = sanitizeDelay(event.delay + spread() * range)
+      if (delay !== event.delay) {
+        next = { ...next, delay }
+      }
+    }
+
+    if (MOUSE_MESSAGES.has(event.message)) {
+      const held = [...heldOffsets.values()].at(-1)
+      let offset: MousePoint
+
+      if (action?.down) {
+        offset = held ?? randomOffset()
+        heldOffsets.set(action.button, offset)
+      } else if (action) {
+        offset = pairedOffset ?? held ?? randomOffset()
+        heldOffsets.delete(action.button)
+      } else {
+        offset = held ?? randomOffset()
+      }
+
+      if (offset.x || offset.y) {
+        const { x, y } = decodeMousePoint(event)
+        next = { ...next, ...encodeMousePoint({ x: x + offset.x, y: y + offset.y }) }
+      }
+    }
+
+    return next
+  })
+}
+
+export interface RepeatOptions {
+  /** Delay (ms) before the first event of every extra iteration. */
+  gap?: number
+  /** Added to mouse coordinates once per iteration, e.g. to walk down a list. */
+  offset?: MousePoint
+}
+
+/**
+ * Builds the extra iterations of `segment` so that, inserted right after it, the segment runs
+ * `count` times in total. Returns only the copies; callers give them fresh ids.
+ */
+export const repeatSegment = <T extends EncodableEvent>(
+  segment: T[],
+  count: number,
+  options: RepeatOptions = {},
+): T[] => {
+  const iterations = Math.max(1, Math.floor(count))
+  const gap = sanitizeDelay(options.gap ?? 0)
+  const offset = options.offset ?? { x: 0, y: 0 }
+  const copies: T[] = []
+
+  for (let iteration = 1; iteration < iterations; iteration += 1) {
+    segment.forEach((event, index) => {
+      let copy: T = { ...event, delay: index === 0 ? gap : event.delay }
+
+      if (MOUSE_MESSAGES.has(event.message) && (offset.x || offset.y)) {
+        const { x, y } = decodeMousePoint(event)
+        copy = { ...copy, ...encodeMousePoint({ x: x + offset.x * iteration, y: y + offset.y * iteration }) }
+      }
+
+      copies.push(copy)
+    })
+  }
+
+  return copies
+}
+
+/** Appends `appended` after `events`, starting it `gap` milliseconds after the last event. */
+export const concatTimelines = <T extends EncodableEvent>(events: T[], appended: T[], gap = 0): T[] => {
+  if (!appended.length) {
+    return events
+  }
+
+  const [first, ...rest] = appended
+  return [...events, { ...first, delay: sanitizeDelay(gap) }, ...rest]
+}
+
+const bisectTime = (events: Array<{ time: number }>, isAfter: (eventTime: number) => boolean) => {
+  let low = 0
+  let high = events.length
+
+  while (low < high) {
+    const middle = (low + high) >>> 1
+    if (isAfter(events[middle].time)) {
+      high = middle
+    } else {
+      low = middle + 1
+    }
+  }
+
+  return low
+}
+
+/** Index at which an event starting at `time` (ms from the first event) belongs: after every event at or before it. */
+export const findIndexAtTime = (events: Array<{ time: number }>, time: number) =>
+  bisectTime(events, (eventTime) => eventTime > time)
+
+/** First index whose event starts at or after `time`; `events.length` when none does. */
+export const findFirstIndexFrom = (events: Array<{ time: number }>, time: number) =>
+  bisectTime(events, (eventTime) => eventTime >= time)
+
+/**
+ * Moves the mouse event at `index` to `point`. A button press takes its release and the events
+ * in between along by the same offset, so dragging a click marker does not turn it into a drag.
+ */
+export const moveMouseEvent = <T extends EncodableEvent>(events: T[], index: number, point: MousePoint): T[] => {
+  const target = events[index]
+  if (!target || !MOUSE_MESSAGES.has(target.message)) {
+    return events
+  }
+
+  const origin = decodeMousePoint(target)
+  const offset = { x: point.x - origin.x, y: point.y - origin.y }
+  if (!offset.x && !offset.y) {
+    return events
+  }
+
+  const action = MOUSE_BUTTON_ACTIONS[target.message]
+  const release = action?.down
+    ? events.findIndex(
+        (event, position) =>
+          position > index &&
+          MOUSE_BUTTON_ACTIONS[event.message]?.button === action.button &&
+          !MOUSE_BUTTON_ACTIONS[event.message].down,
+      )
+    : -1
+  const end = Math.max(index, release)
+
+  return events.map((event, position) => {
+    if (position < index || position > end || !MOUSE_MESSAGES.has(event.message)) {
+      return event
+    }
+
+    const { x, y } = decodeMousePoint(event)
+    return { ...event, ...encodeMousePoint({ x: x + offset.x, y: y + offset.y }) }
+  })
+}
+
+/**
+ * How `retimeEvent` treats the events after the moved one: `anchor` keeps them in place (the
+ * following delay absorbs the change), `ripple` shifts all of them by the same amount.
+ */
+export type RetimeMode = 'anchor' | 'ripple'
+
+/**
+ * Moves the event at `index` to `time` (ms from the first event). It never passes the previous
+ * event, and in `anchor` mode not the next one either; the first event always stays at 0.
+ */
+export const retimeEvent = <T extends EncodableEvent & { time: number }>(
+  events: T[],
+  index: number,
+  time: number,
+  mode: RetimeMode = 'anchor',
+): T[] => {
+  const event = events[index]
+  if (index <= 0 || !event) {
+    return events
+  }
+
+  const previousTime = events[index - 1].time
+  const following = events[index + 1]
+  const latest = mode === 'anchor' && following ? following.time : Number.POSITIVE_INFINITY
+  const target = Math.min(Math.max(Math.round(time), previousTime), latest)
+
+  if (target === event.time) {
+    return events
+  }
+
+  const next = [...events]
+  next[index] = { ...event, delay: sanitizeDelay(target - previousTime) }
+  if (mode === 'anchor' && following) {
+    next[index + 1] = { ...following, delay: sanitizeDelay(following.time - target) }
+  }
+
+  return next
+}
+
+/** Where `insertTimeline` places the inserted events: before the event at `index`, or at `time` ms. */
+export type InsertPosition = { index: number } | { time: number }
+
+/**
+ * Inserts `inserted` into `events`, starting `gap` milliseconds after the insertion point.
+ *
+ * Events after an index position keep their delays, so they shift by the inserted duration. At a
+ * time position the following event's delay is split, so it still fires the same time after the
+ * insertion point as it did before.
+ */
+export const insertTimeline = <T extends EncodableEvent & { time: number }>(
+  events: T[],
+  inserted: T[],
+  position: InsertPosition,
+  gap = 0,
+): T[] => {
+  if (!inserted.length) {
+    return events
+  }
+
+  const [first, ...rest] = inserted
+
+  if ('index' in position) {
+    const index = Math.max(0, Math.min(Math.floor(position.index), events.length))
+    return [...events.slice(0, index), { ...first, delay: sanitizeDelay(gap) }, ...rest, ...events.slice(index)]
+  }
+
+  const time = Math.max(0, position.time)
+  const index = findIndexAtTime(events, time)
+  const previousTime = index > 0 ? events[index - 1].time : 0
+  const following = events.slice(index)
+
+  if (following.length) {
+    following[0] = { ...following[0], delay: sanitizeDelay(following[0].time - time) }
+  }
+
+  return [
+    ...events.slice(0, index),
+    { ...first, delay: sanitizeDelay(time - previousTime + gap) },
+    ...rest,
+    ...following,
+  ]
+}
+
+/** The window handle most events are sent to (the first event's on a tie, 0 for an empty macro). */
+export const mostCommonHwnd = (events: EncodableEvent[]): number => {
+  const counts = new Map<number, number>()
+  events.forEach((event) => counts.set(event.hwnd, (counts.get(event.hwnd) ?? 0) + 1))
+
+  let best = events[0]?.hwnd ?? 0
+  let bestCount = counts.get(best) ?? 0
+
+  counts.forEach((count, hwnd) => {
+    if (count > bestCount) {
+      best = hwnd
+      bestCount = count
+    }
+  })
+
+  return best
+}
+
+export interface MacroSummary {
+  eventCount: number
+  /** Total duration in milliseconds (sum of delays after the first event). */
+  duration: number
+  hwnds: number[]
+  /** Message codes missing from the message catalog. */
+  unknownMessages: number[]
+}
+
+export const summarizeMacro = (events: EncodableEvent[]): MacroSummary => {
+  const hwnds = new Set<number>()
+  const unknown = new Set<number>()
+  let duration = 0
+
+  events.forEach((event, index) => {
+    hwnds.add(event.hwnd)
+    if (!MESSAGE_LABELS[event.message]) {
+      unknown.add(event.message)
+    }
+    if (index > 0) {
+      duration += sanitizeDelay(event.delay)
+    }
+  })
+
+  return {
+    eventCount: events.length,
+    duration,
+    hwnds: [...hwnds],
+    unknownMessages: [...unknown],
+  }
+}
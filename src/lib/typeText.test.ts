@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'vitest'
+
+import { KEYBOARD_LAYOUTS, defineKeyboardLayout, typeText } from './typeText'
+
+const strokes = (text: string, options = {}) =>
+  typeText(text, options).events.map((event) => [event.message, event.paramL, event.delay])
+
+describe('typeText', () => {
+  test('types lowercase keys and wraps shifted characters in Shift', () => {
+    expect(strokes('a!', { keyDelay: 40, holdDelay: 15 })).toEqual([
+      [0x0100, 0x41, 0],
+      [0x0101, 0x41, 15],
+      [0x0100, 0x10, 40],
+      [0x0100, 0x31, 0],
+      [0x0101, 0x31, 15],
+      [0x0101, 0x10, 0],
+    ])
+  })
+
+  test('maps whitespace and OEM keys, skipping carriage returns', () => {
+    expect(strokes('\r\n ./').filter((_entry, index) => index % 2 === 0).map((entry) => entry[1])).toEqual([
+      0x0d, 0x20, 0xbe, 0xbf,
+    ])
+  })
+
+  test('reports characters the layout cannot type', () => {
+    const result = typeText('hé€', { hwnd: 7 })
+
+    expect(result.unsupported).toEqual(['é', '€'])
+    expect(result.events).toHaveLength(2)
+    expect(result.events[0].hwnd).toBe(7)
+  })
+
+  test('supports other layouts on the same key positions', () => {
+    expect(strokes('ф', { layout: KEYBOARD_LAYOUTS.ru }).map((entry) => entry[1])).toEqual([0x41, 0x41])
+    expect(KEYBOARD_LAYOUTS.ru.get('Ё')).toEqual({ virtualKey: 0xc0, shift: true })
+    expect(() => defineKeyboardLayout('abc', 'ABC')).toThrow(/47 characters/)
+  })
+})
@@ -0,0 +1,129 @@
+import { WM_KEYDOWN, WM_KEYUP } from './messageCatalog'
+import type { EncodableEvent } from './recParser'
+import { sanitizeDelay } from './transforms'
+
+const VK_SHIFT = 0x10
+
+export interface KeyStroke {
+  virtualKey: number
+  shift: boolean
+}
+
+/** Characters a layout can type, keyed by the character itself. */
+export type KeyboardLayout = ReadonlyMap<string, KeyStroke>
+
+const codes = (letters: string) => Array.from(letters, (letter) => letter.charCodeAt(0))
+
+/**
+ * Virtual-key codes of the character keys on a standard 101/102-key board, row by row:
+ * `` ` `` and the digit row, the Q row (with `\`), the A row and the Z row.
+ */
+const KEY_POSITIONS = [
+  0xc0, ...codes('1234567890'), 0xbd, 0xbb,
+  ...codes('QWERTYUIOP'), 0xdb, 0xdd, 0xdc,
+  ...codes('ASDFGHJKL'), 0xba, 0xde,
+  ...codes('ZXCVBNM'), 0xbc, 0xbe, 0xbf,
+]
+
+/** Keys that type the same character on every layout. */
+const COMMON_KEYS: Array<[string, KeyStroke]> = [
+  [' ', { virtualKey: 0x20, shift: false }],
+  ['\n', { virtualKey: 0x0d, shift: false }],
+  ['\t', { virtualKey: 0x09, shift: false }],
+]
+
+/**
+ * Builds a layout from the characters printed on the keys in `KEY_POSITIONS` order, without and
+ * with Shift. Add a layout by listing both rows for it and registering it in `KEYBOARD_LAYOUTS`.
+ */
+export const defineKeyboardLayout = (unshifted: string, shifted: string): KeyboardLayout => {
+  const plain = Array.from(unshifted)
+  const upper = Array.from(shifted)
+
+  if (plain.length !== KEY_POSITIONS.length || upper.length !== KEY_POSITIONS.length) {
+    throw new Error(`A keyboard layout needs exactly ${KEY_POSITIONS.length} characters per row.`)
+  }
+
+  const layout = new Map<string, KeyStroke>(COMMON_KEYS)
+  KEY_POSITIONS.forEach((virtualKey, index) => {
+    layout.set(plain[index], { virtualKey, shift: false })
+    layout.set(upper[index], { virtualKey, shift: true })
+  })
+
+  return layout
+}
+
+/**
+ * The target machine must use the same input language while the macro plays: the generated
+ * events carry virtual-key codes, not characters.
+ */
+export const KEYBOARD_LAYOUTS = {
+  us: defineKeyboardLayout(
+    "`1234567890-=qwertyuiop[]\\asdfghjkl;'zxcvbnm,./",
+    '~!@#$%^&*()_+QWERTYUIOP{}|ASDFGHJKL:"ZXCVBNM<>?',
+  ),
+  ru: defineKeyboardLayout(
+    'ё1234567890-=йцукенгшщзхъ\\фывапролджэячсмитьбю.',
+    'Ё!"№;%:?*()_+ЙЦУКЕНГШЩЗХЪ/ФЫВАПРОЛДЖЭЯЧСМИТЬБЮ,',
+  ),
+} satisfies Record<string, KeyboardLayout>
+
+export type KeyboardLayoutId = keyof typeof KEYBOARD_LAYOUTS
+
+export interface TypeTextOptions {
+  layout?: KeyboardLayout
+  /** Delay (ms) before each character after the first. */
+  keyDelay?: number
+  /** Delay (ms) between a key's down and up. */
+  holdDelay?: number
+  hwnd?: number
+}
+
+export interface TypedText {
+  events: EncodableEvent[]
+  /** Distinct characters the layout cannot type; they are skipped. */
+  unsupported: string[]
+}
+
+/**
+ * Emits the `WM_KEYDOWN`/`WM_KEYUP` sequence that types `text`. Shifted characters are wrapped in
+ * a Shift down/up pair with no delay of their own; `\r` is ignored so pasted CRLF text types one Enter.
+ */
+export function typeText(text: string, options: TypeTextOptions = {}): TypedText {
+  const layout = options.layout ?? KEYBOARD_LAYOUTS.us
+  const keyDelay = sanitizeDelay(options.keyDelay ?? 0)
+  const holdDelay = sanitizeDelay(options.holdDelay ?? 0)
+  const hwnd = options.hwnd ?? 0
+  const events: EncodableEvent[] = []
+  const unsupported = new Set<string>()
+
+  const push = (message: number, virtualKey: number, delay: number) => {
+    events.push({ message, paramL: virtualKey, paramH: 0, delay, hwnd })
+  }
+
+  for (const character of text) {
+    if (character === '\r') {
+      continue
+    }
+
+    const stroke = layout.get(character)
+    if (!stroke) {
+      unsupported.add(character)
+      continue
+    }
+
+    const leadDelay = events.length ? keyDelay : 0
+
+    if (stroke.shift) {
+      push(WM_KEYDOWN, VK_SHIFT, leadDelay)
+      push(WM_KEYDOWN, stroke.virtualKey, 0)
+      push(WM_KEYUP, stroke.virtualKey, holdDelay)
+      push(WM_KEYUP, VK_SHIFT, 0)
+    } else {
+      push(WM_KEYDOWN, stroke.virtualKey, leadDelay)
+      push(WM_KEYUP, stroke.virtualKey, holdDelay)
+    }
+  }
+
+  return { events, unsupported: [...unsupported] }
+}
@@ -0,0 +1,113 @@
+import { describeVirtualKey, mapVirtualKey } from './keyCodes'
+import { buildMacroSteps, type MacroStep, type MacroStepOptions } from './macroSteps'
+import type { EncodableEvent } from './recParser'
+
+const BUTTON_NUMBERS = { left: 1, middle: 2, right: 3 } as const
+const WHEEL_UP_BUTTON = 4
+const WHEEL_DOWN_BUTTON = 5
+
+/** X11 keysyms keyed by the labels produced by `describeVirtualKey`. */
+const X11_KEYSYMS: Record<string, string> = {
+  Backspace: 'BackSpace',
+  Tab: 'Tab',
+  Enter: 'Return',
+  Shift: 'Shift_L',
+  Ctrl: 'Control_L',
+  Alt: 'Alt_L',
+  Pause: 'Pause',
+  'Caps Lock': 'Caps_Lock',
+  Esc: 'Escape',
+  Space: 'space',
+  'Page Up': 'Prior',
+  'Page Down': 'Next',
+  End: 'End',
+  Home: 'Home',
+  'Arrow Left': 'Left',
+  'Arrow Up': 'Up',
+  'Arrow Right': 'Right',
+  'Arrow Down': 'Down',
+  'Print Screen': 'Print',
+  Insert: 'Insert',
+  Delete: 'Delete',
+  'Left Win': 'Super_L',
+  'Right Win': 'Super_R',
+  Menu: 'Menu',
+  'Numpad 0': 'KP_0',
+  'Numpad 1': 'KP_1',
+  'Numpad 2': 'KP_2',
+  'Numpad 3': 'KP_3',
+  'Numpad 4': 'KP_4',
+  'Numpad 5': 'KP_5',
+  'Numpad 6': 'KP_6',
+  'Numpad 7': 'KP_7',
+  'Numpad 8': 'KP_8',
+  'Numpad 9': 'KP_9',
+  'Numpad *': 'KP_Multiply',
+  'Numpad +': 'KP_Add',
+  'Numpad Separator': 'KP_Separator',
+  'Numpad -': 'KP_Subtract',
+  'Numpad .': 'KP_Decimal',
+  'Numpad /': 'KP_Divide',
+  F1: 'F1',
+  F2: 'F2',
+  F3: 'F3',
+  F4: 'F4',
+  F5: 'F5',
+  F6: 'F6',
+  F7: 'F7',
+  F8: 'F8',
+  F9: 'F9',
+  F10: 'F10',
+  F11: 'F11',
+  F12: 'F12',
+  'Num Lock': 'Num_Lock',
+  'Scroll Lock': 'Scroll_Lock',
+}
+
+const renderKey = (command: 'key' | 'keydown' | 'keyup', code: number) => {
+  const keysym = mapVirtualKey(code, X11_KEYSYMS)
+
+  if (!keysym) {
+    return `# Skipped ${command} for unmapped key ${describeVirtualKey(code)}`
+  }
+
+  return `xdotool ${command} ${keysym}`
+}
+
+const renderStep = (step: MacroStep): string => {
+  switch (step.kind) {
+    case 'sleep':
+      return `sleep ${step.ms / 1000}`
+    case 'move':
+      return `xdotool mousemove ${step.x} ${step.y}`
+    case 'click':
+      return `xdotool mousemove ${step.x} ${step.y} click ${BUTTON_NUMBERS[step.button]}`
+    case 'buttonDown':
+      return `xdotool mousemove ${step.x} ${step.y} mousedown ${BUTTON_NUMBERS[step.button]}`
+    case 'buttonUp':
+      return `xdotool mousemove ${step.x} ${step.y} mouseup ${BUTTON_NUMBERS[step.button]}`
+    case 'keyPress':
+      return renderKey('key', step.code)
+    case 'keyDown':
+      return renderKey('keydown', step.code)
+    case 'keyUp':
+      return renderKey('keyup', step.code)
+    case 'wheel':
+      return `xdotool click --repeat ${Math.abs(step.notches)} ${step.notches < 0 ? WHEEL_DOWN_BUTTON : WHEEL_UP_BUTTON}`
+    case 'unsupported':
+      return `# Skipped message 0x${step.message.toString(16).toUpperCase()} (${step.paramL}, ${step.paramH})`
+  }
+}
+
+/** Renders the timeline as a bash script of `xdotool` and `sleep` calls for X11 desktops. */
+export function exportXdotool(events: EncodableEvent[], options: MacroStepOptions = {}): string {
+  const lines = [
+    '#!/usr/bin/env bash',
+    '# Generated by TinyTask Macro Editor',
+    'set -euo pipefail',
+    '',
+    ...buildMacroSteps(events, options).map(renderStep),
+  ]
+
+  return `${lines.join('\n')}\n`
+}
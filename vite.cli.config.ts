@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Bundles the headless `tinytask-edit` CLI into a single Node script (no Electron/React involved).
+export default defineConfig({
+    publicDir: false,
+    build: {
+        ssr: 'src/cli/tinytask-edit.ts',
+        outDir: 'dist-cli',
+        emptyOutDir: true,
+        rollupOptions: {
+            output: {
+                entryFileNames: 'tinytask-edit.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+})
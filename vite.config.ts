@@ -7,7 +7,8 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
     plugins: [
         react(),
-        electron({
+        // Vitest runs the suites in plain Node; the renderer shims would turn `node:` imports into `require`.
+        !process.env.VITEST && electron({
             main: {
                 // Shortcut of `build.lib.entry`.
                 entry: 'electron/main.ts',